@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, Plus, Trash2, ListChecks } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AssessmentComponent } from '@/utils/gradeCalculations';
+
+const defaultComponentNames = ['Sessional', 'Midterm', 'Final', 'Practical'];
+
+interface AssessmentBreakdownProps {
+  components: AssessmentComponent[];
+  onChange: (components: AssessmentComponent[]) => void;
+}
+
+const AssessmentBreakdown = ({ components, onChange }: AssessmentBreakdownProps) => {
+  const [open, setOpen] = useState(components.length > 0);
+  const totalWeight = components.reduce((sum, component) => sum + component.weight, 0);
+
+  const addComponent = () => {
+    const newComponent: AssessmentComponent = {
+      id: Date.now().toString(),
+      name: defaultComponentNames[components.length] ?? '',
+      weight: 0,
+      obtainedMarks: 0,
+      totalMarks: 100
+    };
+    onChange([...components, newComponent]);
+  };
+
+  const removeComponent = (id: string) => {
+    onChange(components.filter(component => component.id !== id));
+  };
+
+  const updateComponent = (id: string, field: keyof AssessmentComponent, value: string | number) => {
+    onChange(components.map(component =>
+      component.id === id ? { ...component, [field]: value } : component
+    ));
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-[#0088CC] hover:bg-[#EEEEEE] px-2 h-8 text-xs sm:text-sm"
+        >
+          <ListChecks size={16} className="mr-1" />
+          Assessment breakdown
+          {components.length > 0 && ` (${components.length})`}
+          <ChevronDown size={16} className={cn("ml-1 transition-transform", open && "rotate-180")} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 pt-2">
+        {components.length > 0 && (
+          <div className="hidden sm:grid grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2 text-xs text-[#979797] font-inter">
+            <span>Component</span>
+            <span>Weight (%)</span>
+            <span>Obtained</span>
+            <span>Out of</span>
+            <span className="w-9"></span>
+          </div>
+        )}
+        {components.map(component => (
+          <div key={component.id} className="grid grid-cols-2 sm:grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2">
+            <Input
+              value={component.name}
+              onChange={(e) => updateComponent(component.id, 'name', e.target.value)}
+              placeholder="Component name"
+              className="col-span-2 sm:col-span-1 border-[#979797] focus:border-[#0088CC] text-sm"
+            />
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              value={component.weight}
+              onChange={(e) => updateComponent(component.id, 'weight', Number(e.target.value))}
+              aria-label="Weight"
+              className="border-[#979797] focus:border-[#0088CC] text-sm"
+            />
+            <Input
+              type="number"
+              min="0"
+              max={component.totalMarks}
+              step="0.01"
+              value={component.obtainedMarks}
+              onChange={(e) => updateComponent(component.id, 'obtainedMarks', Number(e.target.value))}
+              aria-label="Obtained marks"
+              className="border-[#979797] focus:border-[#0088CC] text-sm"
+            />
+            <Input
+              type="number"
+              min="1"
+              value={component.totalMarks}
+              onChange={(e) => updateComponent(component.id, 'totalMarks', Number(e.target.value))}
+              aria-label="Total marks"
+              className="border-[#979797] focus:border-[#0088CC] text-sm"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => removeComponent(component.id)}
+              className="border-[#979797] text-[#979797] hover:bg-[#EEEEEE] h-10"
+            >
+              <Trash2 size={16} />
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={addComponent}
+            className="border-[#0088CC] text-[#0088CC] hover:bg-[#EEEEEE]"
+          >
+            <Plus size={16} className="mr-1" />
+            Add component
+          </Button>
+          {components.length > 0 && (
+            <span className={cn("text-xs font-inter", totalWeight === 100 ? "text-[#979797]" : "text-red-500")}>
+              Total weight: {totalWeight}%
+            </span>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default AssessmentBreakdown;
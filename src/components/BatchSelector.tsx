@@ -0,0 +1,66 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { useBatch } from '@/hooks/use-batch';
+import { useGradingScheme } from '@/hooks/use-grading-scheme';
+import { useInstitutionProfile } from '@/hooks/use-institution-profile';
+
+const BatchSelector = () => {
+  const { batch, programs, intakeYears, setBatch } = useBatch();
+  const { scheme } = useGradingScheme();
+  const { profile, profiles, setInstitutionProfile } = useInstitutionProfile();
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:flex-wrap sm:items-center justify-center gap-2 sm:gap-4 font-inter">
+      <div className="flex items-center gap-2">
+        <Label htmlFor="batch-institution" className="text-[#000000] text-sm">
+          Institution
+        </Label>
+        <select
+          id="batch-institution"
+          value={profile.id}
+          onChange={(e) => setInstitutionProfile(e.target.value)}
+          className="h-9 px-2 border border-[#979797] rounded-md focus:border-[#0088CC] focus:outline-none text-sm"
+        >
+          {profiles.map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center gap-2">
+        <Label htmlFor="batch-program" className="text-[#000000] text-sm">
+          Program
+        </Label>
+        <select
+          id="batch-program"
+          value={batch.program}
+          onChange={(e) => setBatch({ ...batch, program: e.target.value })}
+          className="h-9 px-2 border border-[#979797] rounded-md focus:border-[#0088CC] focus:outline-none text-sm"
+        >
+          {programs.map(program => (
+            <option key={program} value={program}>{program}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center gap-2">
+        <Label htmlFor="batch-intake" className="text-[#000000] text-sm">
+          Intake
+        </Label>
+        <select
+          id="batch-intake"
+          value={batch.intakeYear}
+          onChange={(e) => setBatch({ ...batch, intakeYear: Number(e.target.value) })}
+          className="h-9 px-2 border border-[#979797] rounded-md focus:border-[#0088CC] focus:outline-none text-sm"
+        >
+          {intakeYears.map(year => (
+            <option key={year} value={year}>{year}</option>
+          ))}
+        </select>
+      </div>
+      <span className="text-[#979797] text-xs">
+        Graded under the {scheme.name} scheme
+      </span>
+    </div>
+  );
+};
+
+export default BatchSelector;
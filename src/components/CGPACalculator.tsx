@@ -1,17 +1,35 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
-import { Plus, Trash2, GraduationCap, Target, BookOpen } from 'lucide-react';
-import { Semester, calculateCGPA, getGPAPercentage, getLetterGrade, getRemarks } from '@/utils/gradeCalculations';
+import { Plus, Trash2, GraduationCap, Target, BookOpen, History } from 'lucide-react';
+import { Semester, CalculationTrace, CourseAttempt, CGPASource, calculateCGPA, calculateCourseLevelCGPA, crossCheckCGPA, getCountedTotals, getSemesterCount, traceCGPA, formatGPA, getGPAPercentage, getLetterGrade, getRemarks, resolveRepeats } from '@/utils/gradeCalculations';
+import { RepeatPolicy, REPEAT_POLICY_LABELS } from '@/utils/gradingSchemes';
 import { useToast } from '@/hooks/use-toast';
-import ResultModal from './ResultModal';
+import { useGradingScheme } from '@/hooks/use-grading-scheme';
+import { useBatch } from '@/hooks/use-batch';
+import { useInstitutionProfile } from '@/hooks/use-institution-profile';
+import { formatBatch } from '@/utils/gradingPolicies';
+import { useSemesterHandoff } from '@/hooks/use-semester-handoff';
+import ResultModal, { ResultBreakdownRow } from './ResultModal';
+import SemesterCourses from './SemesterCourses';
+import TargetCGPAPlanner from './TargetCGPAPlanner';
+import MissingGPAFinder from './MissingGPAFinder';
+import { ResultSection, addSectionsToPDF, addTraceAppendixToPDF, toPDFText } from '@/utils/resultSections';
+import { getConversionSection } from '@/utils/gpaConversions';
+import { STANDING_LABELS, evaluateStanding, meetsGraduationCGPA } from '@/utils/academicStanding';
+import { classifyDegree, coversFullDegree } from '@/utils/degreeClassification';
 import ShimmerCard from './ShimmerCard';
+import { cn } from '@/lib/utils';
 import { motion } from 'framer-motion';
 import confetti from 'canvas-confetti';
 import jsPDF from 'jspdf';
 
+// The untouched starting row is dropped once real entries replace it
+const isBlankSemester = (semester: Semester) =>
+  !semester.carryForward && semester.gpa === 0 && semester.totalCreditHours === 0 && !semester.courses?.length;
+
 const CGPACalculator = () => {
   const [semesters, setSemesters] = useState<Semester[]>([
     { id: '1', name: 'Semester 1', gpa: 0, totalCreditHours: 0 }
@@ -20,9 +38,52 @@ const CGPACalculator = () => {
     gpa: number;
     grade: string;
     remarks: string;
+    breakdown: ResultBreakdownRow[];
+    sections: ResultSection[];
+    trace: CalculationTrace;
   }>(null);
   const [showModal, setShowModal] = useState(false);
   const { toast } = useToast();
+  const { scheme, issues: schemeIssues } = useGradingScheme();
+  const { batch } = useBatch();
+  const { profile } = useInstitutionProfile();
+  const [repeatPolicy, setRepeatPolicy] = useState<RepeatPolicy>(scheme.repeatPolicy);
+  // A different batch can bring a different repeat rule
+  useEffect(() => {
+    setRepeatPolicy(scheme.repeatPolicy);
+  }, [scheme.repeatPolicy]);
+  // "courses" computes the CGPA from quality points and cross-checks it
+  // against the semester-weighted figure
+  const [cgpaSource, setCgpaSource] = useState<CGPASource>('semesters');
+  const { pending: handedOff, takeHandedOffSemesters } = useSemesterHandoff();
+
+  // Append semesters sent over from the GPA calculator
+  useEffect(() => {
+    if (handedOff.length === 0) return;
+    const taken = takeHandedOffSemesters();
+    setSemesters(current => {
+      const kept = current.filter(semester => !isBlankSemester(semester));
+      const firstNumber = getSemesterCount(kept) + 1;
+      return [
+        ...kept,
+        ...taken.map((semester, index) => ({ ...semester, name: `Semester ${firstNumber + index}` }))
+      ];
+    });
+  }, [handedOff, takeHandedOffSemesters]);
+
+  const countedAttempts = new Map<string, boolean>();
+  resolveRepeats(semesters, repeatPolicy).forEach(group => {
+    group.attempts.forEach(attempt => countedAttempts.set(attempt.course.id, attempt.counted));
+  });
+
+  const getEarlierCourses = (index: number) => {
+    return semesters.slice(0, index).flatMap(semester =>
+      (semester.courses ?? []).map(course => ({
+        id: course.id,
+        label: `${course.name || 'Unnamed course'} (${semester.name})`
+      }))
+    );
+  };
 
   const triggerConfetti = (cgpa: number) => {
     if (cgpa >= 3) {
@@ -96,7 +157,7 @@ const CGPACalculator = () => {
   };
 
   const addSemester = () => {
-    const semesterNumber = semesters.length + 1;
+    const semesterNumber = getSemesterCount(semesters) + 1;
     const newSemester: Semester = {
       id: Date.now().toString(),
       name: `Semester ${semesterNumber}`,
@@ -106,38 +167,161 @@ const CGPACalculator = () => {
     setSemesters([...semesters, newSemester]);
   };
 
+  const addCarryForward = () => {
+    const carryForward: Semester = {
+      id: Date.now().toString(),
+      name: 'Previous record',
+      gpa: 0,
+      totalCreditHours: 0,
+      carryForward: true,
+      semestersCovered: 1
+    };
+    setSemesters([carryForward, ...semesters.filter(semester => !isBlankSemester(semester))]);
+  };
+
   const removeSemester = (id: string) => {
     if (semesters.length > 1) {
       setSemesters(semesters.filter(semester => semester.id !== id));
     }
   };
 
-  const updateSemester = (id: string, field: keyof Semester, value: string | number) => {
+  const updateSemester = (id: string, field: keyof Semester, value: Semester[keyof Semester]) => {
     setSemesters(semesters.map(semester => 
       semester.id === id ? { ...semester, [field]: value } : semester
     ));
   };
 
+  const isValidCourse = (course: CourseAttempt) =>
+    course.creditHours > 0 && course.gradePoint >= 0 && course.gradePoint <= scheme.maxGradePoint;
+
+  const buildCrossCheckSection = (semestersToCheck: Semester[]): ResultSection => {
+    const crossCheck = crossCheckCGPA(semestersToCheck, scheme, repeatPolicy);
+    const hasSemesterGPAs = semestersToCheck.some(semester => semester.totalCreditHours > 0);
+    return {
+      title: 'Cross-check',
+      items: [
+        { label: 'Course-level CGPA', value: formatGPA(crossCheck.courseLevel, scheme) },
+        {
+          label: 'Semester-weighted CGPA',
+          value: hasSemesterGPAs ? formatGPA(crossCheck.semesterWeighted, scheme) : 'n/a'
+        },
+        {
+          label: 'Difference',
+          value: hasSemesterGPAs ? crossCheck.difference.toFixed(scheme.gpaPrecision.decimals) : 'n/a'
+        }
+      ],
+      notes: crossCheck.reasons.length > 0 ? crossCheck.reasons : ['Both methods agree.']
+    };
+  };
+
+  const cumulativeCGPA = (completed: Semester[]) => cgpaSource === 'courses'
+    ? calculateCourseLevelCGPA(completed, scheme, repeatPolicy)
+    : calculateCGPA(completed, scheme, repeatPolicy);
+
+  const buildStandingSection = (semestersToEvaluate: Semester[], cgpa: number): ResultSection => {
+    const standings = evaluateStanding(semestersToEvaluate, scheme, cumulativeCGPA);
+    const { minimumGraduationCGPA } = scheme.standingRules;
+    return {
+      title: 'Academic Standing',
+      items: standings.map(standing => ({
+        label: standing.semesterName,
+        value: `${STANDING_LABELS[standing.standing]} (CGPA ${formatGPA(standing.cgpa, scheme)})`
+      })),
+      notes: [
+        ...standings
+          .filter(standing => standing.standing !== 'good')
+          .map(standing => `${standing.semesterName}: ${standing.reason}`),
+        meetsGraduationCGPA(cgpa, scheme)
+          ? `A CGPA of ${formatGPA(cgpa, scheme)} meets the ${minimumGraduationCGPA.toFixed(2)} minimum required to graduate.`
+          : `A CGPA of ${formatGPA(cgpa, scheme)} is below the ${minimumGraduationCGPA.toFixed(2)} minimum required to graduate.`
+      ]
+    };
+  };
+
+  const buildClassificationSection = (semestersToClassify: Semester[], cgpa: number): ResultSection => {
+    const classification = classifyDegree(semestersToClassify, cgpa, scheme);
+    return {
+      title: 'Degree Classification',
+      items: [
+        { label: 'Division', value: classification.division ?? 'None' },
+        ...classification.awards.map(award => ({
+          label: award.award,
+          value: award.eligible ? 'Eligible' : 'Not eligible'
+        }))
+      ],
+      notes: [
+        classification.divisionReason,
+        ...classification.awards.flatMap(award => award.reasons.map(reason => `${award.award}: ${reason}`))
+      ]
+    };
+  };
+
+  const hasValidGPA = (semester: Semester) =>
+    semester.gpa >= 0 && semester.gpa <= scheme.maxGradePoint && semester.totalCreditHours > 0;
+
+  // A carry-forward block has no courses, so it is checked by its CGPA in either mode
+  const validSemesters = cgpaSource === 'courses'
+    ? semesters.filter(semester => semester.carryForward
+        ? hasValidGPA(semester)
+        : semester.courses?.length && semester.courses.every(isValidCourse))
+    : semesters.filter(hasValidGPA);
+
   const calculateResult = () => {
-    const validSemesters = semesters.filter(semester => 
-      semester.gpa >= 0 && semester.gpa <= 4 && semester.totalCreditHours > 0
-    );
 
     if (validSemesters.length === 0) {
       toast({
         title: "Invalid Input",
-        description: "Please add at least one valid semester with GPA (0-4) and credit hours.",
+        description: cgpaSource === 'courses'
+          ? `Please add courses with grade points (0-${scheme.maxGradePoint}) and credit hours to at least one semester.`
+          : `Please add at least one valid semester with GPA (0-${scheme.maxGradePoint}) and credit hours.`,
         variant: "destructive"
       });
       return;
     }
 
-    const cgpa = calculateCGPA(validSemesters);
-    const percentage = getGPAPercentage(cgpa);
-    const grade = getLetterGrade(percentage);
-    const remarks = getRemarks(percentage);
+    const trace = traceCGPA(validSemesters, scheme, repeatPolicy, cgpaSource);
+    const cgpa = trace.result;
+    const percentage = getGPAPercentage(cgpa, scheme);
+    const grade = getLetterGrade(percentage, scheme);
+    const remarks = getRemarks(percentage, scheme);
+
+    const validCounted = new Map<string, boolean>();
+    resolveRepeats(validSemesters, repeatPolicy).forEach(group => {
+      group.attempts.forEach(attempt => validCounted.set(attempt.course.id, attempt.counted));
+    });
 
-    setResult({ gpa: cgpa, grade, remarks });
+    const breakdown = validSemesters.map(semester => {
+      const semesterGPA = cgpaSource === 'courses'
+        ? calculateCourseLevelCGPA([semester], scheme, repeatPolicy)
+        : semester.gpa;
+      return {
+        id: semester.id,
+        label: semester.carryForward ? `${semester.name} (carried forward)` : semester.name,
+        detail: formatGPA(semesterGPA, scheme),
+        grade: getLetterGrade(getGPAPercentage(semesterGPA, scheme), scheme),
+        creditHours: cgpaSource === 'courses' && !semester.carryForward
+          ? semester.courses.reduce((sum, course) => sum + course.creditHours, 0)
+          : semester.totalCreditHours,
+        subRows: semester.courses?.map(course => {
+          const counted = validCounted.get(course.id);
+          return {
+            id: course.id,
+            label: course.name,
+            detail: course.gradePoint.toFixed(2),
+            grade: counted === undefined ? '' : counted ? 'Counted' : 'Superseded',
+            creditHours: course.creditHours
+          };
+        })
+      };
+    });
+
+    const sections = [buildStandingSection(validSemesters, cgpa)];
+    if (cgpaSource === 'courses') sections.push(buildCrossCheckSection(validSemesters));
+    if (coversFullDegree(validSemesters, scheme)) {
+      sections.push(buildClassificationSection(validSemesters, cgpa));
+    }
+
+    setResult({ gpa: cgpa, grade, remarks, breakdown, sections, trace });
     setShowModal(true);
     
     // Trigger confetti after a short delay
@@ -156,11 +340,16 @@ const CGPACalculator = () => {
       // Title
       doc.setFontSize(20);
       doc.setTextColor(0, 136, 204); // #0088CC
-      doc.text('UoH CGPA Calculator Results', 20, 30);
+      doc.text(`${profile.brandName} CGPA Calculator Results`, 20, 30);
       
       // Horizontal line
       doc.setDrawColor(238, 238, 238); // #EEEEEE
       doc.line(20, 35, 190, 35);
+
+      // Batch whose grading rules were applied
+      doc.setFontSize(10);
+      doc.setTextColor(151, 151, 151); // #979797
+      doc.text(`${profile.name} · ${formatBatch(batch)} · ${scheme.name} grading scheme`, 20, 42);
       
       // Results section
       doc.setFontSize(14);
@@ -168,28 +357,40 @@ const CGPACalculator = () => {
       doc.text('Results:', 20, 50);
       
       doc.setFontSize(12);
-      doc.text(`CGPA: ${result.gpa.toFixed(2)}`, 30, 65);
-      doc.text(`Grade: ${result.grade}`, 30, 75);
+      doc.text(`CGPA: ${formatGPA(result.gpa, scheme)}`, 30, 65);
+      doc.text(toPDFText(`Grade: ${result.grade}`), 30, 75);
       doc.text(`Remarks: ${result.remarks}`, 30, 85);
+      doc.text(`Repeated courses: ${REPEAT_POLICY_LABELS[repeatPolicy]} counts`, 30, 95);
       
       // Semester details section
       doc.setFontSize(14);
-      doc.text('Semester Details:', 20, 105);
+      doc.text('Semester Details:', 20, 110);
       
       doc.setFontSize(10);
-      let yPosition = 120;
-      semesters.forEach((semester, index) => {
+      let yPosition = 125;
+      result.breakdown.forEach((row, index) => {
         if (yPosition > 270) { // Check if we need a new page
           doc.addPage();
           yPosition = 20;
         }
         doc.text(
-          `${index + 1}. ${semester.name}: GPA ${semester.gpa.toFixed(2)} (${semester.totalCreditHours} credit hours)`,
+          `${index + 1}. ${row.label}: GPA ${row.detail} (${row.creditHours} credit hours)`,
           30,
           yPosition
         );
         yPosition += 10;
+        row.subRows?.forEach(subRow => {
+          const status = subRow.grade ? ` – ${subRow.grade}` : '';
+          doc.text(
+            toPDFText(`${subRow.label}: ${subRow.detail} (${subRow.creditHours} credit hours)${status}`),
+            40,
+            yPosition
+          );
+          yPosition += 7;
+        });
       });
+
+      yPosition = addSectionsToPDF(doc, [...result.sections, getConversionSection(result.gpa, scheme)], yPosition);
       
       // Footer
       if (yPosition > 250) {
@@ -200,7 +401,9 @@ const CGPACalculator = () => {
       doc.setFontSize(8);
       doc.setTextColor(151, 151, 151); // #979797
       doc.text(`Generated on: ${new Date().toLocaleDateString()}`, 20, yPosition + 20);
-      doc.text('Prepared by students of Batch 2024 – AI Section A & B', 20, yPosition + 30);
+      doc.text(profile.footerText, 20, yPosition + 30);
+
+      addTraceAppendixToPDF(doc, result.trace, scheme);
       
       // Save the PDF
       doc.save(`CGPA_Results_${new Date().toISOString().split('T')[0]}.pdf`);
@@ -236,6 +439,47 @@ const CGPACalculator = () => {
               </CardTitle>
             </CardHeader>
             <CardContent className="p-4 sm:p-6">
+              <div className="flex flex-col sm:flex-row sm:flex-wrap sm:items-center gap-2 sm:gap-4 mb-4">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <Label htmlFor="cgpa-source" className="font-inter text-[#000000] text-sm">
+                    Compute CGPA from
+                  </Label>
+                  <select
+                    id="cgpa-source"
+                    value={cgpaSource}
+                    onChange={(e) => setCgpaSource(e.target.value as CGPASource)}
+                    className="h-9 px-2 border border-[#979797] rounded-md focus:border-[#0088CC] focus:outline-none text-sm"
+                  >
+                    <option value="semesters">Semester GPAs</option>
+                    <option value="courses">Full course list</option>
+                  </select>
+                </div>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <Label htmlFor="repeat-policy" className="font-inter text-[#000000] text-sm">
+                    Repeated courses count
+                  </Label>
+                  <select
+                    id="repeat-policy"
+                    value={repeatPolicy}
+                    onChange={(e) => setRepeatPolicy(e.target.value as RepeatPolicy)}
+                    className="h-9 px-2 border border-[#979797] rounded-md focus:border-[#0088CC] focus:outline-none text-sm"
+                  >
+                    {(Object.keys(REPEAT_POLICY_LABELS) as RepeatPolicy[]).map(policy => (
+                      <option key={policy} value={policy}>{REPEAT_POLICY_LABELS[policy]}</option>
+                    ))}
+                  </select>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={addCarryForward}
+                  disabled={semesters.some(semester => semester.carryForward)}
+                  className="border-[#0088CC] text-[#0088CC] hover:bg-[#EEEEEE] sm:ml-auto"
+                >
+                  <History size={16} className="mr-1" />
+                  Start from current CGPA
+                </Button>
+              </div>
               <div className="space-y-4">
                 {semesters.map((semester, index) => (
                   <motion.div
@@ -246,12 +490,14 @@ const CGPACalculator = () => {
                     className="relative overflow-hidden"
                   >
                     <div className="absolute inset-0 bg-gradient-to-r from-[#0088CC]/5 via-transparent to-[#0088CC]/5 rounded-lg"></div>
-                    <div className="relative bg-white p-4 rounded-lg border border-[#EEEEEE]">
-                      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                    <div className="relative bg-white p-4 rounded-lg border border-[#EEEEEE] space-y-4">
+                      <div className={cn("grid grid-cols-1 gap-4", semester.carryForward ? "sm:grid-cols-5" : "sm:grid-cols-4")}>
                         <div>
                           <Label className="font-inter text-[#000000] text-sm flex items-center mb-2">
-                            <BookOpen size={16} className="mr-1 text-[#979797]" />
-                            Semester Name
+                            {semester.carryForward
+                              ? <History size={16} className="mr-1 text-[#979797]" />
+                              : <BookOpen size={16} className="mr-1 text-[#979797]" />}
+                            {semester.carryForward ? 'Carried Forward' : 'Semester Name'}
                           </Label>
                           <Input
                             value={semester.name}
@@ -263,12 +509,12 @@ const CGPACalculator = () => {
                         <div>
                           <Label className="font-inter text-[#000000] text-sm flex items-center mb-2">
                             <Target size={16} className="mr-1 text-[#979797]" />
-                            GPA (0-4)
+                            {semester.carryForward ? 'Current CGPA' : 'GPA'} (0-{scheme.maxGradePoint})
                           </Label>
                           <Input
                             type="number"
                             min="0"
-                            max="4"
+                            max={scheme.maxGradePoint}
                             step="0.01"
                             value={semester.gpa}
                             onChange={(e) => updateSemester(semester.id, 'gpa', Number(e.target.value))}
@@ -277,7 +523,7 @@ const CGPACalculator = () => {
                         </div>
                         <div>
                           <Label className="font-inter text-[#000000] text-sm mb-2 block">
-                            Total Credit Hours
+                            {semester.carryForward ? 'Credit Hours in CGPA' : 'Total Credit Hours'}
                           </Label>
                           <Input
                             type="number"
@@ -287,6 +533,20 @@ const CGPACalculator = () => {
                             className="border-[#979797] focus:border-[#0088CC] text-sm sm:text-base"
                           />
                         </div>
+                        {semester.carryForward && (
+                          <div>
+                            <Label className="font-inter text-[#000000] text-sm mb-2 block">
+                              Semesters Covered
+                            </Label>
+                            <Input
+                              type="number"
+                              min="1"
+                              value={semester.semestersCovered ?? 1}
+                              onChange={(e) => updateSemester(semester.id, 'semestersCovered', Number(e.target.value))}
+                              className="border-[#979797] focus:border-[#0088CC] text-sm sm:text-base"
+                            />
+                          </div>
+                        )}
                         <div className="flex items-end">
                           <Button
                             variant="outline"
@@ -299,6 +559,15 @@ const CGPACalculator = () => {
                           </Button>
                         </div>
                       </div>
+
+                      {!semester.carryForward && (
+                        <SemesterCourses
+                          courses={semester.courses ?? []}
+                          earlierCourses={getEarlierCourses(index)}
+                          countedAttempts={countedAttempts}
+                          onChange={(courses) => updateSemester(semester.id, 'courses', courses)}
+                        />
+                      )}
                     </div>
                   </motion.div>
                 ))}
@@ -325,6 +594,7 @@ const CGPACalculator = () => {
                 >
                   <Button
                     onClick={calculateResult}
+                    disabled={schemeIssues.length > 0}
                     className="bg-[#000000] hover:bg-[#333333] text-white font-inter w-full h-12"
                   >
                     Calculate CGPA
@@ -336,10 +606,30 @@ const CGPACalculator = () => {
         </ShimmerCard>
       </motion.div>
 
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.2 }}
+      >
+        <TargetCGPAPlanner
+          current={getCountedTotals(validSemesters, scheme, repeatPolicy, cgpaSource)}
+          nextSemesterNumber={getSemesterCount(semesters) + 1}
+        />
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.3 }}
+      >
+        <MissingGPAFinder />
+      </motion.div>
+
       <ResultModal
         isOpen={showModal}
         onClose={() => setShowModal(false)}
         result={result || { gpa: 0, grade: '', remarks: '' }}
+        breakdownHeadings={{ label: 'Semester', detail: 'GPA' }}
         onExport={exportToPDF}
       />
     </div>
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, Calculator } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CalculationTrace, TraceRow, formatTraceDivision } from '@/utils/gradeCalculations';
+import { useGradingScheme } from '@/hooks/use-grading-scheme';
+
+interface CalculationTraceTableProps {
+  trace: CalculationTrace;
+}
+
+const CalculationTraceTable = ({ trace }: CalculationTraceTableProps) => {
+  const [open, setOpen] = useState(false);
+  const { scheme } = useGradingScheme();
+
+  const renderRow = (row: TraceRow, index: number, adjustment = false) => (
+    <tr key={`${adjustment ? 'adjustment' : 'row'}-${index}`} className={cn("border-t border-[#EEEEEE]", adjustment && "text-[#979797]")}>
+      <td className="p-2">{row.label}</td>
+      <td className="p-2 text-right">{row.percentage ?? '—'}</td>
+      <td className="p-2 text-right">{row.gradePoint.toFixed(2)}</td>
+      <td className="p-2 text-right">{row.creditHours}</td>
+      <td className="p-2 text-right">{row.qualityPoints.toFixed(2)}</td>
+    </tr>
+  );
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mb-6 relative z-10">
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-[#0088CC] hover:bg-[#EEEEEE] px-2 h-8 text-xs sm:text-sm"
+        >
+          <Calculator size={16} className="mr-1" />
+          Show the calculation
+          <ChevronDown size={16} className={cn("ml-1 transition-transform", open && "rotate-180")} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="pt-2">
+        <div className="bg-white/50 rounded-lg border border-white/20 overflow-x-auto">
+          <table className="w-full text-xs font-inter">
+            <thead>
+              <tr className="text-[#979797] text-left">
+                <th className="p-2 font-medium">Entry</th>
+                <th className="p-2 font-medium text-right">%</th>
+                <th className="p-2 font-medium text-right">Grade pt.</th>
+                <th className="p-2 font-medium text-right">Cr.</th>
+                <th className="p-2 font-medium text-right">Quality pts.</th>
+              </tr>
+            </thead>
+            <tbody className="text-[#000000]">
+              {trace.rows.map((row, index) => renderRow(row, index))}
+              {trace.adjustments.map((row, index) => renderRow(row, index, true))}
+              <tr className="border-t-2 border-[#979797] font-semibold">
+                <td className="p-2" colSpan={3}>Total</td>
+                <td className="p-2 text-right">{trace.totalCreditHours}</td>
+                <td className="p-2 text-right">{trace.totalQualityPoints.toFixed(2)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-2 text-xs font-inter text-[#000000]">
+          {formatTraceDivision(trace, scheme)}
+        </p>
+        {trace.excluded.length > 0 && (
+          <ul className="mt-1 space-y-1 list-disc pl-4 text-xs font-inter text-[#979797]">
+            {trace.excluded.map((note, index) => (
+              <li key={index}>{note}</li>
+            ))}
+          </ul>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default CalculationTraceTable;
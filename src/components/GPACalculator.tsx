@@ -3,13 +3,25 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
-import { Check, ChevronsUpDown, BookOpen, Hash, Award } from 'lucide-react';
+import { Check, ChevronsUpDown, BookOpen, Hash, Award, FlaskConical } from 'lucide-react';
 import { Command, CommandEmpty, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
-import { Subject, calculateGPA, getGPAPercentage, getLetterGrade, getRemarks } from '@/utils/gradeCalculations';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Subject, CalculationTrace, CourseAttempt, EntryMode, ENTRY_MODE_LABELS, GradedPart, GradingMode, GRADING_MODE_LABELS, calculateGPA, countsTowardsGPA, formatGPA, getCreditSummary, getGPAPercentage, getGradedParts, getLetterGrade, getRemarks, getSubjectCreditHours, getSubjectPercentage, hasPassedSubject, isPassingPercentage, traceGPA } from '@/utils/gradeCalculations';
+import { ROUNDING_POLICY_LABELS, SpecialStatus, findBandForLetter, findBandWithGradePoint, listGradePoints, listLetterGrades } from '@/utils/gradingSchemes';
 import { useToast } from '@/hooks/use-toast';
-import ResultModal from './ResultModal';
+import { useGradingScheme } from '@/hooks/use-grading-scheme';
+import { useBatch } from '@/hooks/use-batch';
+import { useInstitutionProfile } from '@/hooks/use-institution-profile';
+import { formatBatch } from '@/utils/gradingPolicies';
+import { handOffSemester } from '@/hooks/use-semester-handoff';
+import ResultModal, { ResultBreakdownRow } from './ResultModal';
+import AssessmentBreakdown from './AssessmentBreakdown';
+import TargetGPASolver from './TargetGPASolver';
+import { ResultSection, addSectionsToPDF, addTraceAppendixToPDF, toPDFText } from '@/utils/resultSections';
+import { getConversionSection } from '@/utils/gpaConversions';
+import { findBandImprovements } from '@/utils/gradeSensitivity';
 import ShimmerCard from './ShimmerCard';
 import { motion } from 'framer-motion';
 import confetti from 'canvas-confetti';
@@ -31,9 +43,20 @@ const GPACalculator = () => {
     gpa: number;
     grade: string;
     remarks: string;
+    breakdown: ResultBreakdownRow[];
+    creditHours: { attempted: number; earned: number };
+    courses: CourseAttempt[];
+    sections: ResultSection[];
+    trace: CalculationTrace;
   }>(null);
   const [showModal, setShowModal] = useState(false);
   const { toast } = useToast();
+  const { scheme, issues: schemeIssues } = useGradingScheme();
+  const { batch } = useBatch();
+  const { profile } = useInstitutionProfile();
+
+  const [defaultCreditHours] = profile.creditHourOptions;
+  const [defaultLabCreditHours] = profile.labCreditHourOptions;
 
   useEffect(() => {
     if (subjectCount) {
@@ -41,13 +64,14 @@ const GPACalculator = () => {
         id: (index + 1).toString(),
         name: '',
         marks: 0,
-        creditHours: 1
+        totalMarks: 100,
+        creditHours: defaultCreditHours
       }));
       setSubjects(newSubjects);
     } else {
       setSubjects([]);
     }
-  }, [subjectCount]);
+  }, [subjectCount, defaultCreditHours]);
 
   const triggerConfetti = (gpa: number) => {
     if (gpa >= 3) {
@@ -120,21 +144,282 @@ const GPACalculator = () => {
     }
   };
 
-  const updateSubject = (id: string, field: keyof Subject, value: string | number) => {
+  const updateSubject = (id: string, field: keyof Subject, value: Subject[keyof Subject]) => {
     setSubjects(subjects.map(subject => 
       subject.id === id ? { ...subject, [field]: value } : subject
     ));
   };
 
+  const hasValidMarks = (subject: Subject) => {
+    if (subject.status) return true;
+    if (subject.lab && !(
+      subject.lab.totalMarks > 0 &&
+      subject.lab.marks >= 0 &&
+      subject.lab.marks <= subject.lab.totalMarks
+    )) {
+      return false;
+    }
+    if (subject.entryMode === 'letter') {
+      return !!findBandForLetter(subject.letterGrade ?? '', scheme);
+    }
+    if (subject.entryMode === 'grade-point') {
+      return subject.gradePoint !== undefined && !!findBandWithGradePoint(subject.gradePoint, scheme);
+    }
+    if (subject.components && subject.components.length > 0) {
+      const totalWeight = subject.components.reduce((sum, component) => sum + component.weight, 0);
+      return totalWeight === 100 && subject.components.every(component =>
+        component.weight > 0 &&
+        component.totalMarks > 0 &&
+        component.obtainedMarks >= 0 &&
+        component.obtainedMarks <= component.totalMarks
+      );
+    }
+    return subject.totalMarks > 0 && subject.marks >= 0 && subject.marks <= subject.totalMarks;
+  };
+
+  const hasValidCreditHours = (subject: Subject) => {
+    return subject.gradingMode === 'non-credit' || subject.creditHours > 0;
+  };
+
+  const updateGradingMode = (id: string, gradingMode: GradingMode) => {
+    setSubjects(subjects.map(subject => {
+      if (subject.id !== id) return subject;
+      // Non-credit courses carry no credit hours; restore a default when leaving that mode
+      const creditHours = gradingMode === 'non-credit' ? 0 : subject.creditHours || defaultCreditHours;
+      return { ...subject, gradingMode, creditHours };
+    }));
+  };
+
+  const describePart = (subject: Subject, part: GradedPart) => {
+    if (subject.gradingMode === 'pass-fail') {
+      return isPassingPercentage(part.percentage, scheme) ? 'Pass' : 'Fail';
+    }
+    return `${getLetterGrade(part.percentage, scheme)} · ${part.gradePoint.toFixed(2)}`;
+  };
+
+  const describeCourse = (subject: Subject) => {
+    if (countsTowardsGPA(subject, scheme)) return formatGPA(calculateGPA([subject], scheme), scheme);
+    if (subject.gradingMode === 'pass-fail') return hasPassedSubject(subject, scheme) ? 'Pass' : 'Fail';
+    return GRADING_MODE_LABELS['non-credit'];
+  };
+
+  const describeTheoryInput = (subject: Subject, theory: GradedPart) => {
+    if (subject.entryMode === 'letter') return `Letter ${subject.letterGrade}`;
+    if (subject.entryMode === 'grade-point') return `Grade point ${theory.gradePoint.toFixed(2)}`;
+    if (subject.components?.length) {
+      return `${theory.percentage}% (${subject.components.length} components)`;
+    }
+    return `${subject.marks}/${subject.totalMarks} (${theory.percentage}%)`;
+  };
+
+  const buildBreakdownRow = (subject: Subject): ResultBreakdownRow => {
+    const [theory, lab] = getGradedParts(subject, scheme);
+    const label = (subject.gradingMode ?? 'graded') === 'graded'
+      ? subject.name
+      : `${subject.name} (${GRADING_MODE_LABELS[subject.gradingMode]})`;
+
+    if (subject.status) {
+      const statusRule = scheme.specialStatuses[subject.status];
+      return {
+        id: subject.id,
+        label,
+        detail: statusRule.label,
+        grade: statusRule.policy === 'fail'
+          ? `${statusRule.code} · ${theory.gradePoint.toFixed(2)}`
+          : statusRule.code,
+        creditHours: getSubjectCreditHours(subject)
+      };
+    }
+
+    const theoryDetail = describeTheoryInput(subject, theory);
+
+    if (!lab) {
+      return {
+        id: subject.id,
+        label,
+        detail: theoryDetail,
+        grade: describePart(subject, theory),
+        creditHours: theory.creditHours
+      };
+    }
+
+    // Split courses show the combined grade point with theory and lab beneath
+    return {
+      id: subject.id,
+      label,
+      detail: '',
+      grade: describeCourse(subject),
+      creditHours: getSubjectCreditHours(subject),
+      subRows: [
+        {
+          id: `${subject.id}-theory`,
+          label: 'Theory',
+          detail: theoryDetail,
+          grade: describePart(subject, theory),
+          creditHours: theory.creditHours
+        },
+        {
+          id: `${subject.id}-lab`,
+          label: 'Lab',
+          detail: `${subject.lab.marks}/${subject.lab.totalMarks} (${lab.percentage}%)`,
+          grade: describePart(subject, lab),
+          creditHours: lab.creditHours
+        }
+      ]
+    };
+  };
+
+  const buildImprovementSection = (subjectsToAnalyse: Subject[]): ResultSection => {
+    const improvements = findBandImprovements(subjectsToAnalyse, scheme);
+    return {
+      title: 'Where Extra Marks Help Most',
+      items: improvements.map(improvement => ({
+        label: improvement.part === 'lab' ? `${improvement.name} (lab)` : improvement.name,
+        value: `+${improvement.marksNeeded} marks → ${improvement.nextLetter} (${improvement.nextGradePoint.toFixed(2)}), GPA ${formatGPA(improvement.newGPA, scheme)} (+${improvement.gpaGain.toFixed(3)})`
+      })),
+      notes: improvements.length > 0
+        ? ['Ranked by GPA gain per extra mark, each assuming only that subject changes.']
+        : ['No subject entered as marks can move up a band.']
+    };
+  };
+
+  const renderScoreField = (subject: Subject) => {
+    if (subject.entryMode === 'letter') {
+      return (
+        <div>
+          <Label className="font-inter text-[#000000] text-sm flex items-center mb-2">
+            <Award size={16} className="mr-1 text-[#979797]" />
+            Letter Grade
+          </Label>
+          <select
+            value={subject.letterGrade ?? ''}
+            onChange={(e) => updateSubject(subject.id, 'letterGrade', e.target.value)}
+            disabled={!!subject.status}
+            className="w-full h-10 px-3 border border-[#979797] rounded-md focus:border-[#0088CC] focus:outline-none text-sm sm:text-base"
+          >
+            <option value="" disabled>Select grade</option>
+            {listLetterGrades(scheme).map(letter => (
+              <option key={letter} value={letter}>{letter}</option>
+            ))}
+          </select>
+          <p className="text-[#979797] font-inter text-xs mt-1">
+            {subject.status
+              ? `Marked ${scheme.specialStatuses[subject.status].label}`
+              : subject.letterGrade
+                ? `Counts as ${findBandForLetter(subject.letterGrade, scheme)?.gradePoint.toFixed(2)} grade points`
+                : 'Pick the grade shown on the portal'}
+          </p>
+        </div>
+      );
+    }
+
+    if (subject.entryMode === 'grade-point') {
+      // Nothing entered yet is incomplete, not an F
+      const entered = subject.gradePoint !== undefined;
+      const achievable = entered && !!findBandWithGradePoint(subject.gradePoint, scheme);
+      return (
+        <div>
+          <Label className="font-inter text-[#000000] text-sm flex items-center mb-2">
+            <Award size={16} className="mr-1 text-[#979797]" />
+            Grade Point (0-{scheme.maxGradePoint.toFixed(2)})
+          </Label>
+          <Input
+            type="number"
+            min="0"
+            max={scheme.maxGradePoint}
+            step="0.01"
+            value={subject.gradePoint ?? ''}
+            onChange={(e) => updateSubject(subject.id, 'gradePoint', e.target.value === '' ? undefined : Number(e.target.value))}
+            disabled={!!subject.status}
+            className={cn(
+              "border-[#979797] focus:border-[#0088CC] text-sm sm:text-base",
+              !subject.status && entered && !achievable && "border-red-500"
+            )}
+          />
+          <p className={cn("font-inter text-xs mt-1", !subject.status && entered && !achievable ? "text-red-500" : "text-[#979797]")}>
+            {subject.status
+              ? `Marked ${scheme.specialStatuses[subject.status].label}`
+              : !entered
+                ? 'Enter the grade point shown on the portal'
+                : achievable
+                  ? `Counts as ${getLetterGrade(getSubjectPercentage(subject, scheme), scheme)}`
+                  : 'Not an achievable grade point on this scale'}
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div>
+        <Label className="font-inter text-[#000000] text-sm flex items-center mb-2">
+          <Hash size={16} className="mr-1 text-[#979797]" />
+          Marks (out of {subject.totalMarks})
+        </Label>
+        <Input
+          type="number"
+          min="0"
+          max={subject.totalMarks}
+          step="0.01"
+          value={subject.marks}
+          onChange={(e) => updateSubject(subject.id, 'marks', Number(e.target.value))}
+          disabled={!!subject.status || !!subject.components?.length}
+          className="border-[#979797] focus:border-[#0088CC] text-sm sm:text-base"
+        />
+        <p className="text-[#979797] font-inter text-xs mt-1">
+          {subject.status
+            ? `Marked ${scheme.specialStatuses[subject.status].label}`
+            : <>
+                {subject.components?.length ? 'From components: ' : 'Counts as '}
+                {getSubjectPercentage(subject, scheme)}% · {ROUNDING_POLICY_LABELS[scheme.roundingPolicy]}
+              </>}
+        </p>
+      </div>
+    );
+  };
+
+  // Pending subjects only need a name; the rest must be complete to count
+  const solverSubjects = subjects.filter(subject =>
+    subject.name.trim() !== '' &&
+    hasValidCreditHours(subject) &&
+    (subject.pending || hasValidMarks(subject))
+  );
+
   const calculateResult = () => {
+    const pending = subjects.filter(subject => subject.pending);
+
+    if (pending.length > 0) {
+      toast({
+        title: "Pending Results",
+        description: `${pending.map(subject => subject.name || 'Unnamed subject').join(', ')} ${pending.length === 1 ? 'is' : 'are'} marked as pending. Enter the result or use the target GPA solver.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const unachievable = subjects.filter(subject =>
+      subject.entryMode === 'grade-point' &&
+      !subject.status &&
+      subject.gradePoint !== undefined &&
+      !findBandWithGradePoint(subject.gradePoint, scheme)
+    );
+
+    if (unachievable.length > 0) {
+      toast({
+        title: "Invalid Grade Point",
+        description: `${unachievable.map(subject => subject.name || 'Unnamed subject').join(', ')}: grade points must be one of ${listGradePoints(scheme).map(point => point.toFixed(2)).join(', ')}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
     const validSubjects = subjects.filter(subject => 
-      subject.name.trim() !== '' && subject.marks >= 0 && subject.marks <= 100
+      subject.name.trim() !== '' && hasValidMarks(subject) && hasValidCreditHours(subject)
     );
 
     if (validSubjects.length === 0) {
       toast({
         title: "Invalid Input",
-        description: "Please fill in all subject details with marks between 0-100.",
+        description: "Please fill in all subject details with marks between 0 and the subject's total marks, and component weights adding up to 100%.",
         variant: "destructive"
       });
       return;
@@ -149,18 +434,63 @@ const GPACalculator = () => {
       return;
     }
 
-    const gpa = calculateGPA(validSubjects);
-    const percentage = getGPAPercentage(gpa);
-    const grade = getLetterGrade(percentage);
-    const remarks = getRemarks(percentage);
+    if (!validSubjects.some(subject => countsTowardsGPA(subject, scheme))) {
+      toast({
+        title: "No Graded Subjects",
+        description: "At least one graded subject is needed to calculate a GPA.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const trace = traceGPA(validSubjects, scheme);
+    const gpa = trace.result;
+    const percentage = getGPAPercentage(gpa, scheme);
+    const grade = getLetterGrade(percentage, scheme);
+    const remarks = getRemarks(percentage, scheme);
+
+    const breakdown = validSubjects.map(buildBreakdownRow);
 
-    setResult({ gpa, grade, remarks });
+    const creditHours = getCreditSummary(validSubjects, scheme);
+
+    // Course records for the CGPA calculator; theory and lab stay separate so
+    // each keeps its exact grade point and a failed lab still shows as failed
+    const courses = validSubjects
+      .filter(subject => countsTowardsGPA(subject, scheme))
+      .flatMap(subject => {
+        const parts = getGradedParts(subject, scheme);
+        return parts.map(part => ({
+          id: `${Date.now()}-${subject.id}-${part.part}`,
+          name: parts.length > 1 ? `${subject.name} (${part.part})` : subject.name,
+          gradePoint: part.gradePoint,
+          creditHours: part.creditHours
+        }));
+      });
+
+    setResult({ gpa, grade, remarks, breakdown, creditHours, courses, sections: [buildImprovementSection(validSubjects)], trace });
     setShowModal(true);
     
     // Trigger confetti after a short delay
     setTimeout(() => triggerConfetti(gpa), 500);
   };
 
+  const addToCGPA = () => {
+    if (!result) return;
+
+    handOffSemester({
+      id: Date.now().toString(),
+      name: '',
+      gpa: result.gpa,
+      totalCreditHours: result.creditHours.attempted,
+      courses: result.courses
+    });
+    setShowModal(false);
+    toast({
+      title: "Added to CGPA",
+      description: "This semester has been appended in the CGPA calculator.",
+    });
+  };
+
   const exportToPDF = () => {
     if (!result) return;
     
@@ -173,11 +503,16 @@ const GPACalculator = () => {
       // Title
       doc.setFontSize(20);
       doc.setTextColor(0, 136, 204); // #0088CC
-      doc.text('UoH GPA Calculator Results', 20, 30);
+      doc.text(`${profile.brandName} GPA Calculator Results`, 20, 30);
       
       // Horizontal line
       doc.setDrawColor(238, 238, 238); // #EEEEEE
       doc.line(20, 35, 190, 35);
+
+      // Batch whose grading rules were applied
+      doc.setFontSize(10);
+      doc.setTextColor(151, 151, 151); // #979797
+      doc.text(`${profile.name} · ${formatBatch(batch)} · ${scheme.name} grading scheme`, 20, 42);
       
       // Results section
       doc.setFontSize(14);
@@ -185,28 +520,52 @@ const GPACalculator = () => {
       doc.text('Results:', 20, 50);
       
       doc.setFontSize(12);
-      doc.text(`GPA: ${result.gpa.toFixed(2)}`, 30, 65);
-      doc.text(`Grade: ${result.grade}`, 30, 75);
+      doc.text(`GPA: ${formatGPA(result.gpa, scheme)}`, 30, 65);
+      doc.text(toPDFText(`Grade: ${result.grade}`), 30, 75);
       doc.text(`Remarks: ${result.remarks}`, 30, 85);
+      doc.text(
+        `Credit hours in GPA: ${result.creditHours.attempted} · Earned: ${result.creditHours.earned}`,
+        30,
+        95
+      );
       
       // Subject details section
       doc.setFontSize(14);
-      doc.text('Subject Details:', 20, 105);
+      doc.text('Subject Details:', 20, 110);
       
       doc.setFontSize(10);
-      let yPosition = 120;
-      subjects.forEach((subject, index) => {
+      let yPosition = 125;
+      result.breakdown.forEach((row, index) => {
         if (yPosition > 270) { // Check if we need a new page
           doc.addPage();
           yPosition = 20;
         }
+        const detail = row.detail ? `: ${row.detail}` : '';
         doc.text(
-          `${index + 1}. ${subject.name}: ${subject.marks}/100 (${subject.creditHours} credit hours)`,
+          toPDFText(`${index + 1}. ${row.label}${detail} (${row.creditHours} credit hours) – ${row.grade}`),
           30,
           yPosition
         );
         yPosition += 10;
+        row.subRows?.forEach(subRow => {
+          doc.text(
+            toPDFText(`${subRow.label}: ${subRow.detail} (${subRow.creditHours} credit hours) – ${subRow.grade}`),
+            40,
+            yPosition
+          );
+          yPosition += 7;
+        });
+        subjects.find(subject => subject.id === row.id)?.components?.forEach(component => {
+          doc.text(
+            `${component.name}: ${component.obtainedMarks}/${component.totalMarks} (weight ${component.weight}%)`,
+            40,
+            yPosition
+          );
+          yPosition += 7;
+        });
       });
+
+      yPosition = addSectionsToPDF(doc, [...result.sections, getConversionSection(result.gpa, scheme)], yPosition);
       
       // Footer
       if (yPosition > 250) {
@@ -217,7 +576,9 @@ const GPACalculator = () => {
       doc.setFontSize(8);
       doc.setTextColor(151, 151, 151); // #979797
       doc.text(`Generated on: ${new Date().toLocaleDateString()}`, 20, yPosition + 20);
-      doc.text('Prepared by students of Batch 2024 – AI Section A & B', 20, yPosition + 30);
+      doc.text(profile.footerText, 20, yPosition + 30);
+
+      addTraceAppendixToPDF(doc, result.trace, scheme);
       
       // Save the PDF
       doc.save(`GPA_Results_${new Date().toISOString().split('T')[0]}.pdf`);
@@ -331,7 +692,7 @@ const GPACalculator = () => {
                           Subject {index + 1}
                         </div>
                         
-                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
                           <div>
                             <Label className="font-inter text-[#000000] text-sm flex items-center mb-2">
                               <BookOpen size={16} className="mr-1 text-[#979797]" />
@@ -344,37 +705,170 @@ const GPACalculator = () => {
                               className="border-[#979797] focus:border-[#0088CC] text-sm sm:text-base"
                             />
                           </div>
+                          {renderScoreField(subject)}
                           <div>
                             <Label className="font-inter text-[#000000] text-sm flex items-center mb-2">
                               <Hash size={16} className="mr-1 text-[#979797]" />
-                              Marks (out of 100)
+                              Total Marks
                             </Label>
                             <Input
                               type="number"
-                              min="0"
-                              max="100"
-                              value={subject.marks}
-                              onChange={(e) => updateSubject(subject.id, 'marks', Number(e.target.value))}
+                              min="1"
+                              value={subject.totalMarks}
+                              onChange={(e) => updateSubject(subject.id, 'totalMarks', Number(e.target.value))}
+                              disabled={!!subject.status || !!subject.components?.length || (subject.entryMode ?? 'marks') !== 'marks'}
                               className="border-[#979797] focus:border-[#0088CC] text-sm sm:text-base"
                             />
                           </div>
                           <div>
                             <Label className="font-inter text-[#000000] text-sm flex items-center mb-2">
                               <Award size={16} className="mr-1 text-[#979797]" />
-                              Credit Hours
+                              {subject.lab ? 'Theory Credit Hours' : 'Credit Hours'}
                             </Label>
                             <select
                               value={subject.creditHours}
                               onChange={(e) => updateSubject(subject.id, 'creditHours', Number(e.target.value))}
+                              disabled={subject.gradingMode === 'non-credit'}
                               className="w-full h-10 px-3 border border-[#979797] rounded-md focus:border-[#0088CC] focus:outline-none text-sm sm:text-base"
                             >
-                              <option value={1}>1</option>
-                              <option value={2}>2</option>
-                              <option value={3}>3</option>
-                              <option value={4}>4</option>
+                              {subject.gradingMode === 'non-credit' && <option value={0}>0</option>}
+                              {profile.creditHourOptions.map(option => (
+                                <option key={option} value={option}>{option}</option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+
+                        <div className="flex flex-col sm:flex-row sm:flex-wrap sm:items-center gap-3 sm:gap-6">
+                          <div className="flex items-center space-x-2">
+                            <Label htmlFor={`mode-${subject.id}`} className="font-inter text-[#000000] text-sm">
+                              Grading
+                            </Label>
+                            <select
+                              id={`mode-${subject.id}`}
+                              value={subject.gradingMode ?? 'graded'}
+                              onChange={(e) => updateGradingMode(subject.id, e.target.value as GradingMode)}
+                              className="h-8 px-2 border border-[#979797] rounded-md focus:border-[#0088CC] focus:outline-none text-sm"
+                            >
+                              {(Object.keys(GRADING_MODE_LABELS) as GradingMode[]).map(mode => (
+                                <option key={mode} value={mode}>{GRADING_MODE_LABELS[mode]}</option>
+                              ))}
                             </select>
                           </div>
+                          <div className="flex items-center space-x-2">
+                            <Label htmlFor={`entry-${subject.id}`} className="font-inter text-[#000000] text-sm">
+                              Enter as
+                            </Label>
+                            <select
+                              id={`entry-${subject.id}`}
+                              value={subject.entryMode ?? 'marks'}
+                              onChange={(e) => updateSubject(subject.id, 'entryMode', e.target.value as EntryMode)}
+                              className="h-8 px-2 border border-[#979797] rounded-md focus:border-[#0088CC] focus:outline-none text-sm"
+                            >
+                              {(Object.keys(ENTRY_MODE_LABELS) as EntryMode[]).map(mode => (
+                                <option key={mode} value={mode}>{ENTRY_MODE_LABELS[mode]}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <Label htmlFor={`status-${subject.id}`} className="font-inter text-[#000000] text-sm">
+                              Result
+                            </Label>
+                            <select
+                              id={`status-${subject.id}`}
+                              value={subject.status ?? ''}
+                              onChange={(e) => updateSubject(subject.id, 'status', (e.target.value || undefined) as SpecialStatus)}
+                              className="h-8 px-2 border border-[#979797] rounded-md focus:border-[#0088CC] focus:outline-none text-sm"
+                            >
+                              <option value="">Marks</option>
+                              {(Object.keys(scheme.specialStatuses) as SpecialStatus[]).map(status => (
+                                <option key={status} value={status}>
+                                  {scheme.specialStatuses[status].label} ({scheme.specialStatuses[status].code})
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id={`pending-${subject.id}`}
+                              checked={!!subject.pending}
+                              onCheckedChange={(checked) => updateSubject(subject.id, 'pending', !!checked)}
+                            />
+                            <Label htmlFor={`pending-${subject.id}`} className="font-inter text-[#000000] text-sm">
+                              Result pending
+                            </Label>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id={`lab-${subject.id}`}
+                              checked={!!subject.lab}
+                              onCheckedChange={(checked) => updateSubject(
+                                subject.id,
+                                'lab',
+                                checked ? { marks: 0, totalMarks: 100, creditHours: defaultLabCreditHours } : undefined
+                              )}
+                            />
+                            <Label htmlFor={`lab-${subject.id}`} className="font-inter text-[#000000] text-sm flex items-center">
+                              <FlaskConical size={16} className="mr-1 text-[#979797]" />
+                              Separately graded lab
+                            </Label>
+                          </div>
                         </div>
+
+                        {subject.lab && (
+                          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            <div>
+                              <Label className="font-inter text-[#000000] text-sm flex items-center mb-2">
+                                <Hash size={16} className="mr-1 text-[#979797]" />
+                                Lab Marks (out of {subject.lab.totalMarks})
+                              </Label>
+                              <Input
+                                type="number"
+                                min="0"
+                                max={subject.lab.totalMarks}
+                                step="0.01"
+                                value={subject.lab.marks}
+                                onChange={(e) => updateSubject(subject.id, 'lab', { ...subject.lab, marks: Number(e.target.value) })}
+                                className="border-[#979797] focus:border-[#0088CC] text-sm sm:text-base"
+                              />
+                            </div>
+                            <div>
+                              <Label className="font-inter text-[#000000] text-sm flex items-center mb-2">
+                                <Hash size={16} className="mr-1 text-[#979797]" />
+                                Lab Total Marks
+                              </Label>
+                              <Input
+                                type="number"
+                                min="1"
+                                value={subject.lab.totalMarks}
+                                onChange={(e) => updateSubject(subject.id, 'lab', { ...subject.lab, totalMarks: Number(e.target.value) })}
+                                className="border-[#979797] focus:border-[#0088CC] text-sm sm:text-base"
+                              />
+                            </div>
+                            <div>
+                              <Label className="font-inter text-[#000000] text-sm flex items-center mb-2">
+                                <Award size={16} className="mr-1 text-[#979797]" />
+                                Lab Credit Hours
+                              </Label>
+                              <select
+                                value={subject.lab.creditHours}
+                                onChange={(e) => updateSubject(subject.id, 'lab', { ...subject.lab, creditHours: Number(e.target.value) })}
+                                className="w-full h-10 px-3 border border-[#979797] rounded-md focus:border-[#0088CC] focus:outline-none text-sm sm:text-base"
+                              >
+                                {profile.labCreditHourOptions.map(option => (
+                                  <option key={option} value={option}>{option}</option>
+                                ))}
+                              </select>
+                            </div>
+                          </div>
+                        )}
+
+                        {(subject.entryMode ?? 'marks') === 'marks' && (
+                          <AssessmentBreakdown
+                            components={subject.components ?? []}
+                            onChange={(components) => updateSubject(subject.id, 'components', components)}
+                          />
+                        )}
                       </div>
                     </motion.div>
                   ))}
@@ -387,6 +881,7 @@ const GPACalculator = () => {
                 >
                   <Button
                     onClick={calculateResult}
+                    disabled={schemeIssues.length > 0}
                     className="bg-[#000000] hover:bg-[#333333] text-white font-inter w-full h-12 text-base transition-all duration-200"
                   >
                     Calculate GPA
@@ -398,11 +893,25 @@ const GPACalculator = () => {
         </motion.div>
       )}
 
+      {subjectCount && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.2 }}
+        >
+          <TargetGPASolver
+            subjects={solverSubjects}
+            skippedCount={subjects.length - solverSubjects.length}
+          />
+        </motion.div>
+      )}
+
       <ResultModal
         isOpen={showModal}
         onClose={() => setShowModal(false)}
         result={result || { gpa: 0, grade: '', remarks: '' }}
         onExport={exportToPDF}
+        onAddToCGPA={addToCGPA}
       />
     </div>
   );
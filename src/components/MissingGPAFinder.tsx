@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Undo2 } from 'lucide-react';
+import { DerivedSemesterGPA, deriveSemesterGPA, formatGPA } from '@/utils/gradeCalculations';
+import { useGradingScheme } from '@/hooks/use-grading-scheme';
+import { useInstitutionProfile } from '@/hooks/use-institution-profile';
+import { useToast } from '@/hooks/use-toast';
+import ShimmerCard from './ShimmerCard';
+
+const MissingGPAFinder = () => {
+  const [previousCGPA, setPreviousCGPA] = useState(0);
+  const [previousCreditHours, setPreviousCreditHours] = useState(0);
+  const [newCGPA, setNewCGPA] = useState(0);
+  const { profile } = useInstitutionProfile();
+  const [semesterCreditHours, setSemesterCreditHours] = useState(profile.typicalSemesterCreditHours);
+  const [derived, setDerived] = useState<DerivedSemesterGPA | null>(null);
+  const { scheme, issues: schemeIssues } = useGradingScheme();
+  // Another institution brings its own usual semester load
+  useEffect(() => {
+    setSemesterCreditHours(profile.typicalSemesterCreditHours);
+  }, [profile.typicalSemesterCreditHours]);
+  const { toast } = useToast();
+
+  const isValidCGPA = (cgpa: number) => cgpa >= 0 && cgpa <= scheme.maxGradePoint;
+
+  const derive = () => {
+    if (!isValidCGPA(previousCGPA) || !isValidCGPA(newCGPA) || previousCreditHours <= 0 || semesterCreditHours <= 0) {
+      toast({
+        title: "Invalid Input",
+        description: `Please enter both CGPAs (0-${scheme.maxGradePoint.toFixed(2)}) and the credit hours before and during the semester.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setDerived(deriveSemesterGPA(previousCGPA, previousCreditHours, newCGPA, semesterCreditHours, scheme));
+  };
+
+  const { decimals, mode } = scheme.gpaPrecision;
+
+  const fields = [
+    { label: `CGPA before (0-${scheme.maxGradePoint.toFixed(2)})`, value: previousCGPA, onChange: setPreviousCGPA, step: '0.01' },
+    { label: 'Credit hours before', value: previousCreditHours, onChange: setPreviousCreditHours, step: '1' },
+    { label: `CGPA after (0-${scheme.maxGradePoint.toFixed(2)})`, value: newCGPA, onChange: setNewCGPA, step: '0.01' },
+    { label: 'Semester credit hours', value: semesterCreditHours, onChange: setSemesterCreditHours, step: '1' },
+  ];
+
+  return (
+    <ShimmerCard>
+      <Card className="border-2 border-[#EEEEEE]">
+        <CardHeader className="bg-[#EEEEEE] p-4 sm:p-6">
+          <CardTitle className="font-jakarta font-semibold text-[#000000] text-lg sm:text-xl flex items-center">
+            <Undo2 size={20} className="mr-2 text-[#0088CC]" />
+            Find a Missing Semester GPA
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 sm:p-6 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {fields.map(field => (
+              <div key={field.label}>
+                <Label className="font-inter text-[#000000] text-sm mb-2 block">
+                  {field.label}
+                </Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step={field.step}
+                  value={field.value}
+                  onChange={(e) => {
+                    field.onChange(Number(e.target.value));
+                    setDerived(null);
+                  }}
+                  className="border-[#979797] focus:border-[#0088CC] text-sm sm:text-base"
+                />
+              </div>
+            ))}
+          </div>
+
+          <Button
+            onClick={derive}
+            disabled={schemeIssues.length > 0}
+            className="bg-[#0088CC] hover:bg-[#0077BB] text-white font-inter h-10"
+          >
+            Find semester GPA
+          </Button>
+
+          {derived && (
+            <div className="space-y-2 font-inter text-sm">
+              {derived.consistent ? (
+                <>
+                  <p className="text-[#000000]">
+                    The semester GPA was about <span className="font-semibold">{formatGPA(derived.gpa, scheme)}</span>.
+                  </p>
+                  <p className="text-[#979797] text-xs">
+                    {derived.minimum === derived.maximum
+                      ? `Both CGPAs are ${mode === 'truncate' ? 'truncated' : 'rounded'} to ${decimals} decimals, and only ${formatGPA(derived.minimum, scheme)} fits them.`
+                      : `Both CGPAs are ${mode === 'truncate' ? 'truncated' : 'rounded'} to ${decimals} decimals, so any semester GPA from ${formatGPA(derived.minimum, scheme)} to ${formatGPA(derived.maximum, scheme)} fits them.`}
+                  </p>
+                </>
+              ) : (
+                <p className="text-red-500">
+                  No semester GPA between 0 and {scheme.maxGradePoint.toFixed(2)} moves the CGPA from {formatGPA(previousCGPA, scheme)} to {formatGPA(newCGPA, scheme)} with these credit hours. Please check the figures.
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </ShimmerCard>
+  );
+};
+
+export default MissingGPAFinder;
@@ -1,7 +1,22 @@
 import React, { useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { X, Target, Award, MessageSquare, Download } from 'lucide-react';
+import { X, Target, Award, MessageSquare, Download, ListPlus } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useGradingScheme } from '@/hooks/use-grading-scheme';
+import { useInstitutionProfile } from '@/hooks/use-institution-profile';
+import { CalculationTrace, formatGPA } from '@/utils/gradeCalculations';
+import { ResultSection } from '@/utils/resultSections';
+import { convertGPA } from '@/utils/gpaConversions';
+import CalculationTraceTable from './CalculationTraceTable';
+
+export interface ResultBreakdownRow {
+  id: string;
+  label: string;
+  detail: string;
+  grade: string;
+  creditHours: number;
+  subRows?: ResultBreakdownRow[];
+}
 
 interface ResultModalProps {
   isOpen: boolean;
@@ -10,11 +25,28 @@ interface ResultModalProps {
     gpa: number;
     grade: string;
     remarks: string;
+    breakdown?: ResultBreakdownRow[];
+    creditHours?: { attempted: number; earned: number };
+    sections?: ResultSection[];
+    trace?: CalculationTrace;
   };
   onExport: () => void;
+  // Shown as an extra action when the result can be carried into the CGPA calculator
+  onAddToCGPA?: () => void;
+  breakdownHeadings?: { label: string; detail: string };
 }
 
-const ResultModal = ({ isOpen, onClose, result, onExport }: ResultModalProps) => {
+const ResultModal = ({
+  isOpen,
+  onClose,
+  result,
+  onExport,
+  onAddToCGPA,
+  breakdownHeadings = { label: 'Subject', detail: 'Marks' }
+}: ResultModalProps) => {
+  const { scheme } = useGradingScheme();
+  const { profile } = useInstitutionProfile();
+
   // Handle escape key press
   useEffect(() => {
     const handleEscape = (event: KeyboardEvent) => {
@@ -56,6 +88,12 @@ const ResultModal = ({ isOpen, onClose, result, onExport }: ResultModalProps) =>
     onExport();
   };
 
+  const handleAddToCGPAClick = (e: React.MouseEvent<HTMLButtonElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onAddToCGPA?.();
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -80,7 +118,7 @@ const ResultModal = ({ isOpen, onClose, result, onExport }: ResultModalProps) =>
         
         {/* Modal Content */}
         <motion.div
-          className="relative bg-white/90 backdrop-blur-md border border-white/30 rounded-xl shadow-2xl max-w-md w-full mx-4 p-6 overflow-hidden"
+          className="relative bg-white/90 backdrop-blur-md border border-white/30 rounded-xl shadow-2xl max-w-md w-full mx-4 p-6 overflow-y-auto max-h-[90vh]"
           initial={{ scale: 0.9, opacity: 0, y: 20 }}
           animate={{ scale: 1, opacity: 1, y: 0 }}
           exit={{ scale: 0.9, opacity: 0, y: 20 }}
@@ -113,6 +151,9 @@ const ResultModal = ({ isOpen, onClose, result, onExport }: ResultModalProps) =>
             <h2 className="text-xl font-bold text-[#0088CC] font-jakarta">
               GPA Results
             </h2>
+            <p className="text-[#979797] font-inter text-xs mt-1">
+              {profile.name} · {scheme.name} grading scheme
+            </p>
           </motion.div>
 
           {/* Results */}
@@ -128,7 +169,7 @@ const ResultModal = ({ isOpen, onClose, result, onExport }: ResultModalProps) =>
                 <Target className="text-[#0088CC] mr-2" size={20} />
               </div>
               <div className="text-2xl font-bold text-[#0088CC] font-jakarta relative z-10">
-                {result.gpa.toFixed(2)}
+                {formatGPA(result.gpa, scheme)}
               </div>
               <div className="text-[#979797] font-inter text-sm relative z-10">GPA</div>
             </motion.div>
@@ -166,6 +207,95 @@ const ResultModal = ({ isOpen, onClose, result, onExport }: ResultModalProps) =>
             </motion.div>
           </div>
           
+          {/* Breakdown */}
+          {result.breakdown && result.breakdown.length > 0 && (
+            <motion.div
+              className="mb-6 relative z-10 max-h-48 overflow-y-auto bg-white/50 rounded-lg border border-white/20"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.45 }}
+            >
+              <table className="w-full text-xs font-inter">
+                <thead>
+                  <tr className="text-[#979797] text-left">
+                    <th className="p-2 font-medium">{breakdownHeadings.label}</th>
+                    <th className="p-2 font-medium">{breakdownHeadings.detail}</th>
+                    <th className="p-2 font-medium">Cr.</th>
+                    <th className="p-2 font-medium text-right">Grade</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.breakdown.map((row) => (
+                    <React.Fragment key={row.id}>
+                      <tr className="border-t border-[#EEEEEE] text-[#000000]">
+                        <td className="p-2">{row.label}</td>
+                        <td className="p-2">{row.detail}</td>
+                        <td className="p-2">{row.creditHours}</td>
+                        <td className="p-2 text-right font-semibold">{row.grade}</td>
+                      </tr>
+                      {row.subRows?.map((subRow) => (
+                        <tr key={subRow.id} className="text-[#979797]">
+                          <td className="py-1 pl-5 pr-2">{subRow.label}</td>
+                          <td className="py-1 px-2">{subRow.detail}</td>
+                          <td className="py-1 px-2">{subRow.creditHours}</td>
+                          <td className="py-1 px-2 text-right">{subRow.grade}</td>
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </motion.div>
+          )}
+
+          {result.creditHours && (
+            <div className="mb-6 relative z-10 text-center text-xs text-[#979797] font-inter">
+              Credit hours in GPA: {result.creditHours.attempted} · Credit hours earned: {result.creditHours.earned}
+            </div>
+          )}
+
+          {result.trace && <CalculationTraceTable trace={result.trace} />}
+
+          {/* Additional sections */}
+          {result.sections?.map((section) => (
+            <div
+              key={section.title}
+              className="mb-6 relative z-10 bg-white/50 p-3 rounded-lg border border-white/20 font-inter text-xs"
+            >
+              <div className="text-sm font-semibold text-[#000000] font-jakarta mb-2">{section.title}</div>
+              {section.items?.map((item, index) => (
+                <div key={index} className="flex justify-between py-0.5">
+                  <span className="text-[#979797]">{item.label}</span>
+                  <span className="font-semibold text-[#000000]">{item.value}</span>
+                </div>
+              ))}
+              {section.notes && section.notes.length > 0 && (
+                <ul className="mt-2 space-y-1 list-disc pl-4 text-[#979797]">
+                  {section.notes.map((note, index) => (
+                    <li key={index}>{note}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+
+          {/* Other scales */}
+          <div className="mb-6 relative z-10 bg-white/50 p-3 rounded-lg border border-white/20 font-inter text-xs">
+            <div className="text-sm font-semibold text-[#000000] font-jakarta mb-2">Other Scales</div>
+            <div className="grid grid-cols-2 gap-2">
+              {convertGPA(result.gpa, scheme).map((conversion) => (
+                <div key={conversion.scale} className="bg-white/60 rounded-md p-2">
+                  <div className="text-[#979797]">{conversion.scale}</div>
+                  <div className="font-semibold text-[#000000]">{conversion.value}</div>
+                  <div className="text-[10px] text-[#979797] mt-1">{conversion.basis}</div>
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-[#979797]">
+              Estimates only; the receiving institution's own conversion takes precedence.
+            </p>
+          </div>
+
           {/* Export Button */}
           <motion.div
             className="text-center relative z-10"
@@ -175,6 +305,18 @@ const ResultModal = ({ isOpen, onClose, result, onExport }: ResultModalProps) =>
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
           >
+            {onAddToCGPA && (
+              <Button
+                onClick={handleAddToCGPAClick}
+                variant="outline"
+                className="border-[#0088CC] text-[#0088CC] hover:bg-[#EEEEEE] font-inter w-full mb-2 transition-all duration-200"
+                type="button"
+                style={{ pointerEvents: 'auto' }}
+              >
+                <ListPlus size={16} className="mr-2" />
+                Add to CGPA calculator
+              </Button>
+            )}
             <Button
               onClick={handleExportClick}
               className="bg-[#0088CC] hover:bg-[#0077BB] text-white font-inter w-full transition-all duration-200"
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import { GradingScheme } from '@/utils/gradingSchemes';
+import { SchemeIssue } from '@/utils/schemeValidation';
+
+interface SchemeErrorReportProps {
+  scheme: GradingScheme;
+  issues: SchemeIssue[];
+}
+
+const SchemeErrorReport = ({ scheme, issues }: SchemeErrorReportProps) => {
+  return (
+    <Alert variant="destructive" className="font-inter">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle className="font-jakarta font-semibold">
+        The {scheme.name} grading scheme has {issues.length} problem{issues.length === 1 ? '' : 's'}
+      </AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p className="text-sm">
+          Calculations are turned off until the scheme is fixed, since they would give wrong results.
+        </p>
+        <ul className="list-disc pl-4 text-xs space-y-1">
+          {issues.map((issue, index) => (
+            <li key={index}>{issue.message}</li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default SchemeErrorReport;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, Plus, Trash2, Repeat } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CourseAttempt } from '@/utils/gradeCalculations';
+import { useGradingScheme } from '@/hooks/use-grading-scheme';
+import { useInstitutionProfile } from '@/hooks/use-institution-profile';
+
+interface SemesterCoursesProps {
+  courses: CourseAttempt[];
+  // Courses from earlier semesters that an attempt here can repeat
+  earlierCourses: { id: string; label: string }[];
+  // Whether each attempt in a repeat group counts under the current policy
+  countedAttempts: Map<string, boolean>;
+  onChange: (courses: CourseAttempt[]) => void;
+}
+
+const SemesterCourses = ({ courses, earlierCourses, countedAttempts, onChange }: SemesterCoursesProps) => {
+  const [open, setOpen] = useState(courses.length > 0);
+  const { scheme } = useGradingScheme();
+  const { profile } = useInstitutionProfile();
+
+  const addCourse = () => {
+    const newCourse: CourseAttempt = {
+      id: Date.now().toString(),
+      name: '',
+      gradePoint: 0,
+      creditHours: profile.defaultCourseCreditHours
+    };
+    onChange([...courses, newCourse]);
+  };
+
+  const removeCourse = (id: string) => {
+    onChange(courses.filter(course => course.id !== id));
+  };
+
+  const updateCourse = (id: string, field: keyof CourseAttempt, value: CourseAttempt[keyof CourseAttempt]) => {
+    onChange(courses.map(course =>
+      course.id === id ? { ...course, [field]: value } : course
+    ));
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-[#0088CC] hover:bg-[#EEEEEE] px-2 h-8 text-xs sm:text-sm"
+        >
+          <Repeat size={16} className="mr-1" />
+          Courses
+          {courses.length > 0 && ` (${courses.length})`}
+          <ChevronDown size={16} className={cn("ml-1 transition-transform", open && "rotate-180")} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 pt-2">
+        {courses.length > 0 && (
+          <div className="hidden sm:grid grid-cols-[2fr_1fr_1fr_2fr_auto] gap-2 text-xs text-[#979797] font-inter">
+            <span>Course</span>
+            <span>Grade point</span>
+            <span>Credit hours</span>
+            <span>Repeat of</span>
+            <span className="w-9"></span>
+          </div>
+        )}
+        {courses.map(course => {
+          const counted = countedAttempts.get(course.id);
+          return (
+            <div key={course.id} className="space-y-1">
+              <div className="grid grid-cols-2 sm:grid-cols-[2fr_1fr_1fr_2fr_auto] gap-2">
+                <Input
+                  value={course.name}
+                  onChange={(e) => updateCourse(course.id, 'name', e.target.value)}
+                  placeholder="Course name or code"
+                  className="col-span-2 sm:col-span-1 border-[#979797] focus:border-[#0088CC] text-sm"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  max={scheme.maxGradePoint}
+                  step="0.01"
+                  value={course.gradePoint}
+                  onChange={(e) => updateCourse(course.id, 'gradePoint', Number(e.target.value))}
+                  aria-label="Grade point"
+                  className="border-[#979797] focus:border-[#0088CC] text-sm"
+                />
+                <Input
+                  type="number"
+                  min="1"
+                  value={course.creditHours}
+                  onChange={(e) => updateCourse(course.id, 'creditHours', Number(e.target.value))}
+                  aria-label="Credit hours"
+                  className="border-[#979797] focus:border-[#0088CC] text-sm"
+                />
+                <select
+                  value={course.repeatOf ?? ''}
+                  onChange={(e) => updateCourse(course.id, 'repeatOf', e.target.value || undefined)}
+                  aria-label="Repeat of"
+                  className="h-10 px-2 border border-[#979797] rounded-md focus:border-[#0088CC] focus:outline-none text-sm"
+                >
+                  <option value="">First attempt</option>
+                  {earlierCourses.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => removeCourse(course.id)}
+                  className="border-[#979797] text-[#979797] hover:bg-[#EEEEEE] h-10"
+                >
+                  <Trash2 size={16} />
+                </Button>
+              </div>
+              {counted !== undefined && (
+                <p className={cn("text-xs font-inter", counted ? "text-[#0088CC]" : "text-[#979797]")}>
+                  {counted ? 'Counted towards CGPA' : 'Superseded by another attempt'}
+                </p>
+              )}
+            </div>
+          );
+        })}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={addCourse}
+          className="border-[#0088CC] text-[#0088CC] hover:bg-[#EEEEEE]"
+        >
+          <Plus size={16} className="mr-1" />
+          Add course
+        </Button>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default SemesterCourses;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Flag } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { QualityPointTotals, formatGPA } from '@/utils/gradeCalculations';
+import { CGPAPlan, planTargetCGPA } from '@/utils/targetSolver';
+import { useGradingScheme } from '@/hooks/use-grading-scheme';
+import { useInstitutionProfile } from '@/hooks/use-institution-profile';
+import { useToast } from '@/hooks/use-toast';
+import ShimmerCard from './ShimmerCard';
+
+interface RemainingSemester {
+  id: string;
+  name: string;
+  creditHours: number;
+}
+
+interface TargetCGPAPlannerProps {
+  // Counted quality points and credit hours of the valid semesters entered above
+  current: QualityPointTotals;
+  // Number used to name the first remaining semester
+  nextSemesterNumber: number;
+}
+
+const TargetCGPAPlanner = ({ current, nextSemesterNumber }: TargetCGPAPlannerProps) => {
+  const [targetCGPA, setTargetCGPA] = useState(3.5);
+  const [remaining, setRemaining] = useState<RemainingSemester[]>([]);
+  const [plan, setPlan] = useState<CGPAPlan | null>(null);
+  const { scheme, issues: schemeIssues } = useGradingScheme();
+  const { profile } = useInstitutionProfile();
+  const { toast } = useToast();
+
+  const setRemainingCount = (count: number) => {
+    const size = Math.max(0, Math.min(12, Math.floor(count)));
+    setRemaining(Array.from({ length: size }, (_, index) => remaining[index] ?? {
+      id: `${Date.now()}-${index}`,
+      name: `Semester ${nextSemesterNumber + index}`,
+      creditHours: profile.typicalSemesterCreditHours
+    }));
+    setPlan(null);
+  };
+
+  const updateCreditHours = (id: string, creditHours: number) => {
+    setRemaining(remaining.map(semester =>
+      semester.id === id ? { ...semester, creditHours } : semester
+    ));
+    setPlan(null);
+  };
+
+  const makePlan = () => {
+    if (remaining.length === 0 || remaining.some(semester => semester.creditHours <= 0)) {
+      toast({
+        title: "Invalid Input",
+        description: "Please add at least one remaining semester, each with credit hours.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (targetCGPA <= 0 || targetCGPA > scheme.maxGradePoint) {
+      toast({
+        title: "Invalid Target",
+        description: `Please enter a target CGPA between 0 and ${scheme.maxGradePoint.toFixed(2)}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setPlan(planTargetCGPA(current, targetCGPA, remaining, scheme));
+  };
+
+  const currentCGPA = current.creditHours > 0 ? current.qualityPoints / current.creditHours : 0;
+
+  return (
+    <ShimmerCard>
+      <Card className="border-2 border-[#EEEEEE]">
+        <CardHeader className="bg-[#EEEEEE] p-4 sm:p-6">
+          <CardTitle className="font-jakarta font-semibold text-[#000000] text-lg sm:text-xl flex items-center">
+            <Flag size={20} className="mr-2 text-[#0088CC]" />
+            Target CGPA Planner
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 sm:p-6 space-y-4">
+          <p className="text-[#979797] font-inter text-xs">
+            {current.creditHours > 0
+              ? `Starting from a CGPA of ${formatGPA(currentCGPA, scheme)} over ${current.creditHours} credit hours.`
+              : 'No valid semesters entered yet, so the plan starts from scratch.'}
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <Label className="font-inter text-[#000000] text-sm mb-2 block">
+                Target CGPA (0-{scheme.maxGradePoint.toFixed(2)})
+              </Label>
+              <Input
+                type="number"
+                min="0"
+                max={scheme.maxGradePoint}
+                step="0.01"
+                value={targetCGPA}
+                onChange={(e) => {
+                  setTargetCGPA(Number(e.target.value));
+                  setPlan(null);
+                }}
+                className="border-[#979797] focus:border-[#0088CC] text-sm sm:text-base"
+              />
+            </div>
+            <div>
+              <Label className="font-inter text-[#000000] text-sm mb-2 block">
+                Remaining semesters
+              </Label>
+              <Input
+                type="number"
+                min="0"
+                max="12"
+                value={remaining.length}
+                onChange={(e) => setRemainingCount(Number(e.target.value))}
+                className="border-[#979797] focus:border-[#0088CC] text-sm sm:text-base"
+              />
+            </div>
+          </div>
+
+          {remaining.length > 0 && (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {remaining.map(semester => (
+                <div key={semester.id}>
+                  <Label className="font-inter text-[#979797] text-xs mb-1 block">
+                    {semester.name} credit hours
+                  </Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={semester.creditHours}
+                    onChange={(e) => updateCreditHours(semester.id, Number(e.target.value))}
+                    className="border-[#979797] focus:border-[#0088CC] text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Button
+            onClick={makePlan}
+            disabled={schemeIssues.length > 0}
+            className="bg-[#0088CC] hover:bg-[#0077BB] text-white font-inter h-10"
+          >
+            Plan semesters
+          </Button>
+
+          {plan && (
+            <div className="space-y-2 font-inter text-sm">
+              {plan.alreadySecured && (
+                <p className="text-[#0088CC]">
+                  A {targetCGPA.toFixed(2)} is already secured by the semesters above, whatever comes next.
+                </p>
+              )}
+              {!plan.alreadySecured && (
+                <p className={plan.feasible ? 'text-[#000000]' : 'text-red-500'}>
+                  {plan.feasible
+                    ? <>You need an average GPA of at least <span className="font-semibold">{plan.semesters[0].requiredGPA.toFixed(scheme.gpaPrecision.decimals)}</span> in each remaining semester to reach {targetCGPA.toFixed(2)}.</>
+                    : `A ${targetCGPA.toFixed(2)} is out of reach: it needs an average GPA of ${plan.requiredAverageGPA.toFixed(2)}, above the ${scheme.maxGradePoint.toFixed(2)} maximum.`}
+                </p>
+              )}
+              <ul className="space-y-1">
+                {plan.semesters.map(semester => (
+                  <li key={semester.name} className="flex justify-between border-t border-[#EEEEEE] pt-1">
+                    <span>{semester.name} ({semester.creditHours} credit hours)</span>
+                    <span className={cn("font-semibold", semester.requiredGPA > scheme.maxGradePoint && "text-red-500")}>
+                      GPA {semester.requiredGPA.toFixed(scheme.gpaPrecision.decimals)} → CGPA {formatGPA(semester.cgpaAfter, scheme)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </ShimmerCard>
+  );
+};
+
+export default TargetCGPAPlanner;
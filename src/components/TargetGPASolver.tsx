@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Crosshair } from 'lucide-react';
+import { Subject, formatGPA } from '@/utils/gradeCalculations';
+import { TargetSolution, solveTargetGPA } from '@/utils/targetSolver';
+import { useGradingScheme } from '@/hooks/use-grading-scheme';
+import { useToast } from '@/hooks/use-toast';
+import ShimmerCard from './ShimmerCard';
+
+interface TargetGPASolverProps {
+  // Subjects with valid marks plus those marked as pending
+  subjects: Subject[];
+  // Subjects left out because their details are incomplete
+  skippedCount: number;
+}
+
+const TargetGPASolver = ({ subjects, skippedCount }: TargetGPASolverProps) => {
+  const [targetGPA, setTargetGPA] = useState(3.5);
+  const [solution, setSolution] = useState<TargetSolution | null>(null);
+  const { scheme, issues: schemeIssues } = useGradingScheme();
+  const { toast } = useToast();
+
+  const solve = () => {
+    if (!subjects.some(subject => subject.pending)) {
+      toast({
+        title: "No Pending Subjects",
+        description: "Mark at least one subject as pending to find the marks it needs.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (targetGPA <= 0 || targetGPA > scheme.maxGradePoint) {
+      toast({
+        title: "Invalid Target",
+        description: `Please enter a target GPA between 0 and ${scheme.maxGradePoint.toFixed(2)}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSolution(solveTargetGPA(subjects, targetGPA, scheme));
+  };
+
+  return (
+    <ShimmerCard>
+      <Card className="border-2 border-[#EEEEEE]">
+        <CardHeader className="bg-[#EEEEEE] p-4 sm:p-6">
+          <CardTitle className="font-jakarta font-semibold text-[#000000] text-lg sm:text-xl flex items-center">
+            <Crosshair size={20} className="mr-2 text-[#0088CC]" />
+            Target GPA
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 sm:p-6 space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="flex-1">
+              <Label className="font-inter text-[#000000] text-sm mb-2 block">
+                Target GPA (0-{scheme.maxGradePoint.toFixed(2)})
+              </Label>
+              <Input
+                type="number"
+                min="0"
+                max={scheme.maxGradePoint}
+                step="0.01"
+                value={targetGPA}
+                onChange={(e) => setTargetGPA(Number(e.target.value))}
+                className="border-[#979797] focus:border-[#0088CC] text-sm sm:text-base"
+              />
+            </div>
+            <Button
+              onClick={solve}
+              disabled={schemeIssues.length > 0}
+              className="bg-[#0088CC] hover:bg-[#0077BB] text-white font-inter h-10"
+            >
+              Find required marks
+            </Button>
+          </div>
+
+          {skippedCount > 0 && (
+            <p className="text-[#979797] font-inter text-xs">
+              {skippedCount} subject(s) with incomplete details are left out.
+            </p>
+          )}
+
+          {solution && (
+            <div className="space-y-2 font-inter text-sm">
+              {!solution.feasible && (
+                <p className="text-red-500">
+                  A {targetGPA.toFixed(2)} is out of reach: even full marks in every pending subject give {formatGPA(solution.maxAchievableGPA, scheme)}.
+                </p>
+              )}
+              {solution.feasible && solution.alreadySecured && (
+                <p className="text-[#0088CC]">
+                  The target is already secured by your known results, whatever the pending subjects bring.
+                </p>
+              )}
+              {solution.feasible && !solution.alreadySecured && (
+                <>
+                  <p className="text-[#000000]">
+                    Scoring at least <span className="font-semibold">{solution.uniformPercentage}%</span> in every pending subject reaches {targetGPA.toFixed(2)}.
+                  </p>
+                  <p className="text-[#979797] text-xs">
+                    Minimum in each subject if you get full marks in the other pending ones:
+                  </p>
+                  <ul className="space-y-1">
+                    {solution.requirements.map(requirement => (
+                      <li key={requirement.subjectId} className="flex justify-between border-t border-[#EEEEEE] pt-1">
+                        <span>{requirement.name || 'Unnamed subject'}</span>
+                        <span className="font-semibold">
+                          {requirement.minimumMarks}/{requirement.totalMarks} ({requirement.letter} · {requirement.gradePoint?.toFixed(2)})
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </ShimmerCard>
+  );
+};
+
+export default TargetGPASolver;
@@ -0,0 +1,46 @@
+import * as React from "react"
+
+import {
+  Batch,
+  DEFAULT_BATCH,
+  listIntakeYears,
+  listPrograms,
+  resolveGradingSchemeId,
+} from "@/utils/gradingPolicies"
+import { setGradingScheme } from "./use-grading-scheme"
+
+const listeners: Array<(batch: Batch) => void> = []
+
+let selectedBatch = DEFAULT_BATCH
+
+// Selecting a batch also switches to the grading scheme its intake follows
+function setBatch(batch: Batch) {
+  selectedBatch = batch
+  setGradingScheme(resolveGradingSchemeId(batch))
+  listeners.forEach((listener) => {
+    listener(selectedBatch)
+  })
+}
+
+function useBatch() {
+  const [batch, setBatchState] = React.useState(selectedBatch)
+
+  React.useEffect(() => {
+    listeners.push(setBatchState)
+    return () => {
+      const index = listeners.indexOf(setBatchState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    batch,
+    programs: listPrograms(batch.institutionId),
+    intakeYears: listIntakeYears(batch.institutionId),
+    setBatch,
+  }
+}
+
+export { useBatch, setBatch }
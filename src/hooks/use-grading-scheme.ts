@@ -0,0 +1,42 @@
+import * as React from "react"
+
+import {
+  DEFAULT_GRADING_SCHEME_ID,
+  getGradingScheme,
+  getGradingSchemeIssues,
+  listGradingSchemes,
+} from "@/utils/gradingSchemes"
+
+const listeners: Array<(schemeId: string) => void> = []
+
+let selectedSchemeId = DEFAULT_GRADING_SCHEME_ID
+
+function setGradingScheme(schemeId: string) {
+  selectedSchemeId = schemeId
+  listeners.forEach((listener) => {
+    listener(selectedSchemeId)
+  })
+}
+
+function useGradingScheme() {
+  const [schemeId, setSchemeId] = React.useState(selectedSchemeId)
+
+  React.useEffect(() => {
+    listeners.push(setSchemeId)
+    return () => {
+      const index = listeners.indexOf(setSchemeId)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    scheme: getGradingScheme(schemeId),
+    issues: getGradingSchemeIssues(schemeId),
+    schemes: listGradingSchemes(),
+    setGradingScheme,
+  }
+}
+
+export { useGradingScheme, setGradingScheme }
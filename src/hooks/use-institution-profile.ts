@@ -0,0 +1,21 @@
+import {
+  getInstitutionProfile,
+  listInstitutionProfiles,
+} from "@/utils/institutionProfiles"
+import { ALL_PROGRAMS } from "@/utils/gradingPolicies"
+import { setBatch, useBatch } from "./use-batch"
+
+// The institution is part of the selected batch, so switching profiles starts
+// a fresh batch there and brings in that institution's grading scheme
+function useInstitutionProfile() {
+  const { batch } = useBatch()
+
+  return {
+    profile: getInstitutionProfile(batch.institutionId),
+    profiles: listInstitutionProfiles(),
+    setInstitutionProfile: (institutionId: string) =>
+      setBatch({ ...batch, institutionId, program: ALL_PROGRAMS }),
+  }
+}
+
+export { useInstitutionProfile }
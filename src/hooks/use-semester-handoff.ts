@@ -0,0 +1,51 @@
+import * as React from "react"
+
+import type { Semester } from "@/utils/gradeCalculations"
+
+// Semesters calculated in the GPA calculator and waiting to be appended
+// in the CGPA calculator. Both calculators stay mounted, so the CGPA
+// calculator takes them as soon as they are sent
+
+const listeners: Array<(semesters: Semester[]) => void> = []
+
+let pendingSemesters: Semester[] = []
+
+function notify() {
+  listeners.forEach((listener) => {
+    listener(pendingSemesters)
+  })
+}
+
+function handOffSemester(semester: Semester) {
+  pendingSemesters = [...pendingSemesters, semester]
+  notify()
+}
+
+function takeHandedOffSemesters(): Semester[] {
+  const taken = pendingSemesters
+  pendingSemesters = []
+  notify()
+  return taken
+}
+
+function useSemesterHandoff() {
+  const [pending, setPending] = React.useState(pendingSemesters)
+
+  React.useEffect(() => {
+    listeners.push(setPending)
+    return () => {
+      const index = listeners.indexOf(setPending)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    pending,
+    handOffSemester,
+    takeHandedOffSemesters,
+  }
+}
+
+export { useSemesterHandoff, handOffSemester, takeHandedOffSemesters }
@@ -1,12 +1,25 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import GPACalculator from '@/components/GPACalculator';
 import CGPACalculator from '@/components/CGPACalculator';
+import { useSemesterHandoff } from '@/hooks/use-semester-handoff';
+import { useGradingScheme } from '@/hooks/use-grading-scheme';
+import SchemeErrorReport from '@/components/SchemeErrorReport';
+import BatchSelector from '@/components/BatchSelector';
+import { useInstitutionProfile } from '@/hooks/use-institution-profile';
 import { motion } from 'framer-motion';
 
 const Index = () => {
   const [activeTab, setActiveTab] = useState<'gpa' | 'cgpa'>('gpa');
+  const { pending: handedOff } = useSemesterHandoff();
+  const { scheme, issues: schemeIssues } = useGradingScheme();
+  const { profile } = useInstitutionProfile();
+
+  // Show the CGPA calculator when a semester is sent over to it
+  useEffect(() => {
+    if (handedOff.length > 0) setActiveTab('cgpa');
+  }, [handedOff]);
 
   return (
     <div className="min-h-screen bg-white font-inter transition-all duration-300">
@@ -26,7 +39,7 @@ const Index = () => {
                 animate={{ scale: 1 }}
                 transition={{ duration: 0.5, delay: 0.1 }}
               >
-                UoH GPA Calculator
+                {profile.brandName} GPA Calculator
               </motion.h1>
               <motion.p 
                 className="text-[#979797] font-inter text-xs sm:text-sm text-center px-2 whitespace-nowrap"
@@ -34,7 +47,7 @@ const Index = () => {
                 animate={{ opacity: 1 }}
                 transition={{ duration: 0.5, delay: 0.2 }}
               >
-                Prepared by students of Batch 2024 – AI Section A & B
+                {profile.footerText}
               </motion.p>
             </div>
           </div>
@@ -54,6 +67,16 @@ const Index = () => {
           </motion.div>
         </motion.div>
 
+        {/* Batch decides which grading rules apply */}
+        <motion.div
+          className="mb-6"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.35 }}
+        >
+          <BatchSelector />
+        </motion.div>
+
         {/* Tab Switcher with Animation */}
         <motion.div 
           className="flex justify-center mb-6 sm:mb-8"
@@ -88,17 +111,26 @@ const Index = () => {
           </div>
         </motion.div>
 
-        {/* Calculator Content with Animation */}
-        <motion.div 
-          className="max-w-4xl mx-auto"
-          key={activeTab}
-          initial={{ opacity: 0, x: 20 }}
-          animate={{ opacity: 1, x: 0 }}
-          exit={{ opacity: 0, x: -20 }}
-          transition={{ duration: 0.4 }}
-        >
-          {activeTab === 'gpa' ? <GPACalculator /> : <CGPACalculator />}
-        </motion.div>
+        {/* Calculator Content with Animation; both stay mounted so switching
+            tabs (or to a broken scheme and back) keeps what has been entered */}
+        <div className="max-w-4xl mx-auto">
+          {schemeIssues.length > 0 && (
+            <div className="mb-6">
+              <SchemeErrorReport scheme={scheme} issues={schemeIssues} />
+            </div>
+          )}
+          {(['gpa', 'cgpa'] as const).map(tab => (
+            <motion.div
+              key={tab}
+              className={activeTab === tab ? '' : 'hidden'}
+              initial={{ opacity: 0, x: 20 }}
+              animate={activeTab === tab ? { opacity: 1, x: 0 } : { opacity: 0, x: 20 }}
+              transition={{ duration: 0.4 }}
+            >
+              {tab === 'gpa' ? <GPACalculator /> : <CGPACalculator />}
+            </motion.div>
+          ))}
+        </div>
       </div>
     </div>
   );
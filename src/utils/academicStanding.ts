@@ -0,0 +1,86 @@
+import { GradingScheme, UOH_GRADING_SCHEME } from "./gradingSchemes";
+import { Semester, calculateCGPA } from "./gradeCalculations";
+
+export type Standing = "good" | "probation" | "dismissed";
+
+export const STANDING_LABELS: Record<Standing, string> = {
+  good: "Good standing",
+  probation: "Probation",
+  dismissed: "Dismissed",
+};
+
+export interface SemesterStanding {
+  semesterId: string;
+  semesterName: string;
+  cgpa: number;
+  standing: Standing;
+  consecutiveProbations: number;
+  reason: string;
+}
+
+export const evaluateStanding = (
+  semesters: Semester[],
+  scheme: GradingScheme = UOH_GRADING_SCHEME,
+  // Cumulative GPA after the given semesters; semester-weighted by default
+  cumulativeCGPA: (completed: Semester[]) => number = completed => calculateCGPA(completed, scheme)
+): SemesterStanding[] => {
+  const { probationBelow, dismissalAfterProbations } = scheme.standingRules;
+  const standings: SemesterStanding[] = [];
+  let consecutiveProbations = 0;
+  let dismissed = false;
+
+  semesters.forEach((semester, index) => {
+    const cgpa = cumulativeCGPA(semesters.slice(0, index + 1));
+    const base = { semesterId: semester.id, semesterName: semester.name, cgpa };
+
+    // Dismissal is final; later semesters are only listed for reference
+    if (dismissed) {
+      standings.push({
+        ...base,
+        standing: "dismissed",
+        consecutiveProbations,
+        reason: "Already dismissed in an earlier semester.",
+      });
+      return;
+    }
+
+    if (cgpa >= probationBelow) {
+      consecutiveProbations = 0;
+      standings.push({
+        ...base,
+        standing: "good",
+        consecutiveProbations,
+        reason: `CGPA is at or above ${probationBelow.toFixed(2)}.`,
+      });
+      return;
+    }
+
+    consecutiveProbations += 1;
+    if (consecutiveProbations >= dismissalAfterProbations) {
+      dismissed = true;
+      standings.push({
+        ...base,
+        standing: "dismissed",
+        consecutiveProbations,
+        reason: `CGPA below ${probationBelow.toFixed(2)} for ${consecutiveProbations} consecutive semesters.`,
+      });
+      return;
+    }
+
+    standings.push({
+      ...base,
+      standing: "probation",
+      consecutiveProbations,
+      reason: `CGPA is below ${probationBelow.toFixed(2)}.`,
+    });
+  });
+
+  return standings;
+};
+
+export const meetsGraduationCGPA = (
+  cgpa: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): boolean => {
+  return cgpa >= scheme.standingRules.minimumGraduationCGPA;
+};
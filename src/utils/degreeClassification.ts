@@ -0,0 +1,68 @@
+import { GradingScheme, UOH_GRADING_SCHEME, findBandForGradePoint } from "./gradingSchemes";
+import { Semester, formatGPA, getSemesterCount } from "./gradeCalculations";
+
+export interface AwardEligibility {
+  award: string;
+  eligible: boolean;
+  reasons: string[];
+}
+
+export interface DegreeClassification {
+  division: string | null;
+  divisionReason: string;
+  awards: AwardEligibility[];
+}
+
+export const coversFullDegree = (
+  semesters: Semester[],
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): boolean => {
+  return getSemesterCount(semesters) >= scheme.classificationRules.degreeSemesters;
+};
+
+export const classifyDegree = (
+  semesters: Semester[],
+  cgpa: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): DegreeClassification => {
+  const { divisions, awards } = scheme.classificationRules;
+  const courses = semesters.flatMap(semester => semester.courses ?? []);
+  const failBand = scheme.bands[scheme.bands.length - 1];
+  const hasRepeats = courses.some(course => course.repeatOf);
+  const hasFailures = courses.some(course => findBandForGradePoint(course.gradePoint, scheme) === failBand);
+
+  const division = divisions.find(d => cgpa >= d.minCGPA) ?? null;
+  const divisionReason = division
+    ? `CGPA ${formatGPA(cgpa, scheme)} is at least ${division.minCGPA.toFixed(2)}.`
+    : `CGPA ${formatGPA(cgpa, scheme)} is below ${divisions[divisions.length - 1].minCGPA.toFixed(2)}, the lowest division.`;
+
+  return {
+    division: division?.name ?? null,
+    divisionReason,
+    awards: awards.map(rule => {
+      const reasons: string[] = [];
+      let eligible = true;
+
+      if (cgpa < rule.minCGPA) {
+        eligible = false;
+        reasons.push(`Needs a CGPA of ${rule.minCGPA.toFixed(2)}; final CGPA is ${formatGPA(cgpa, scheme)}.`);
+      } else {
+        reasons.push(`CGPA ${formatGPA(cgpa, scheme)} meets the ${rule.minCGPA.toFixed(2)} requirement.`);
+      }
+      if (rule.requiresNoRepeats && hasRepeats) {
+        eligible = false;
+        reasons.push("A course was repeated.");
+      }
+      if (rule.requiresNoFailures && hasFailures) {
+        eligible = false;
+        reasons.push(`A course was graded ${failBand.letter}.`);
+      }
+      // Without course records the repeat and failure conditions cannot be checked
+      if ((rule.requiresNoRepeats || rule.requiresNoFailures) && courses.length === 0) {
+        reasons.push("No course records entered, so repeats and failed courses were not checked.");
+      }
+
+      return { award: rule.name, eligible, reasons };
+    }),
+  };
+};
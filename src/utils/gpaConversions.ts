@@ -0,0 +1,169 @@
+import { GradingScheme, UOH_GRADING_SCHEME, applyGPAPrecision } from "./gradingSchemes";
+import { ResultSection } from "./resultSections";
+
+// Conversions of a CGPA into scales used by employers and foreign admissions
+// offices. Every table below is on a 4.0 scale, so a CGPA from a scheme with a
+// different maximum is scaled to 4.0 first. These are planning estimates:
+// the receiving body's own published table always takes precedence.
+
+export interface GPAConversion {
+  scale: string;
+  value: string;
+  // How the value was obtained, shown next to it
+  basis: string;
+}
+
+interface ConversionPoint {
+  gradePoint: number;
+  percentage: number;
+}
+
+// HEC uniform semester grading: the lowest percentage that earns each grade
+// point. A CGPA between two points is interpolated linearly, and anything
+// from 4.00 up reads as the top band's floor.
+// Source: the Higher Education Commission of Pakistan's recommended grading
+// criteria for the semester system (85% = 4.0 down to 50% = 1.0). Individual
+// universities may adopt a variant of it.
+export const HEC_PERCENTAGE_TABLE: ConversionPoint[] = [
+  { gradePoint: 4.0, percentage: 85 },
+  { gradePoint: 3.67, percentage: 80 },
+  { gradePoint: 3.33, percentage: 75 },
+  { gradePoint: 3.0, percentage: 71 },
+  { gradePoint: 2.67, percentage: 68 },
+  { gradePoint: 2.33, percentage: 64 },
+  { gradePoint: 2.0, percentage: 61 },
+  { gradePoint: 1.67, percentage: 58 },
+  { gradePoint: 1.33, percentage: 54 },
+  { gradePoint: 1.0, percentage: 50 },
+];
+
+interface GradeStep {
+  minGradePoint: number;
+  label: string;
+  value: number;
+}
+
+// WES-style US grades. WES re-grades each course from the transcript; from a
+// CGPA alone the closest estimate is the US grade step at or below it.
+// Source: the conventional US 4.0 quality points for plus/minus letter grades
+// (A = 4.00, A- = 3.67, B+ = 3.33, ...), the scale WES reports its GPA on. This
+// is not WES's own country table, which is not published per grade.
+export const WES_GRADE_TABLE: GradeStep[] = [
+  { minGradePoint: 4.0, label: "A", value: 4.0 },
+  { minGradePoint: 3.67, label: "A-", value: 3.67 },
+  { minGradePoint: 3.33, label: "B+", value: 3.33 },
+  { minGradePoint: 3.0, label: "B", value: 3.0 },
+  { minGradePoint: 2.67, label: "B-", value: 2.67 },
+  { minGradePoint: 2.33, label: "C+", value: 2.33 },
+  { minGradePoint: 2.0, label: "C", value: 2.0 },
+  { minGradePoint: 1.67, label: "C-", value: 1.67 },
+  { minGradePoint: 1.33, label: "D+", value: 1.33 },
+  { minGradePoint: 1.0, label: "D", value: 1.0 },
+  { minGradePoint: 0, label: "F", value: 0 },
+];
+
+// Typical UK admissions guidance for degrees on a 4.0 scale. Individual UK
+// universities publish their own country tables and may ask for more.
+// Source: no single official table exists. 3.7, 3.3 and 3.0 are the figures
+// UK universities' international entry requirements most often give as
+// equivalent to a First, 2:1 and 2:2 for US-style GPAs; 2.5 for a Third is
+// this calculator's own estimate, halfway between a 2:2 and a bare pass (2.0).
+export const UK_CLASS_TABLE: { minGradePoint: number; className: string }[] = [
+  { minGradePoint: 3.7, className: "First Class" },
+  { minGradePoint: 3.3, className: "Upper Second (2:1)" },
+  { minGradePoint: 3.0, className: "Lower Second (2:2)" },
+  { minGradePoint: 2.5, className: "Third Class" },
+];
+
+const toFourPointScale = (gpa: number, scheme: GradingScheme): number => {
+  return (gpa * 4) / scheme.maxGradePoint;
+};
+
+export const toHECPercentage = (
+  gpa: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): number | null => {
+  const fourPoint = toFourPointScale(gpa, scheme);
+  const [top] = HEC_PERCENTAGE_TABLE;
+  if (fourPoint >= top.gradePoint) return top.percentage;
+
+  const lowerIndex = HEC_PERCENTAGE_TABLE.findIndex(point => fourPoint >= point.gradePoint);
+  // Below the lowest passing grade point there is no equivalence
+  if (lowerIndex === -1) return null;
+
+  const lower = HEC_PERCENTAGE_TABLE[lowerIndex];
+  const upper = HEC_PERCENTAGE_TABLE[lowerIndex - 1];
+  const fraction = (fourPoint - lower.gradePoint) / (upper.gradePoint - lower.gradePoint);
+  return Math.round((lower.percentage + fraction * (upper.percentage - lower.percentage)) * 10) / 10;
+};
+
+// Straight proportional scaling, as most 10-point (CGPA/10) systems expect
+export const toTenPointScale = (
+  gpa: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): number => {
+  return applyGPAPrecision((gpa * 10) / scheme.maxGradePoint, scheme.gpaPrecision);
+};
+
+export const toWESGrade = (
+  gpa: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): GradeStep => {
+  const fourPoint = toFourPointScale(gpa, scheme);
+  return WES_GRADE_TABLE.find(step => fourPoint + 1e-6 >= step.minGradePoint);
+};
+
+export const toUKClass = (
+  gpa: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): string | null => {
+  const fourPoint = toFourPointScale(gpa, scheme);
+  return UK_CLASS_TABLE.find(row => fourPoint + 1e-6 >= row.minGradePoint)?.className ?? null;
+};
+
+export const convertGPA = (
+  gpa: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): GPAConversion[] => {
+  const hecPercentage = toHECPercentage(gpa, scheme);
+  const wesGrade = toWESGrade(gpa, scheme);
+  const ukClass = toUKClass(gpa, scheme);
+
+  return [
+    {
+      scale: "HEC percentage",
+      value: hecPercentage === null ? "Below equivalence" : `${hecPercentage}%`,
+      basis: "Interpolated between the HEC uniform grading band floors.",
+    },
+    {
+      scale: "10-point scale",
+      value: `${toTenPointScale(gpa, scheme).toFixed(2)} / 10`,
+      basis: "Scaled proportionally from the 4.0 scale.",
+    },
+    {
+      scale: "WES-style 4.0",
+      value: `${wesGrade.value.toFixed(2)} (${wesGrade.label})`,
+      basis: "Nearest US grade step at or below; WES re-grades course by course.",
+    },
+    {
+      scale: "UK degree class",
+      value: ukClass ?? "Below Third Class",
+      basis: "Typical UK admissions guidance; each university sets its own table.",
+    },
+  ];
+};
+
+export const getConversionSection = (
+  gpa: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): ResultSection => {
+  const conversions = convertGPA(gpa, scheme);
+  return {
+    title: "Other Scales",
+    items: conversions.map(conversion => ({ label: conversion.scale, value: conversion.value })),
+    notes: [
+      ...conversions.map(conversion => `${conversion.scale}: ${conversion.basis}`),
+      "Estimates only; the receiving institution's own conversion takes precedence.",
+    ],
+  };
+};
@@ -1,9 +1,86 @@
+import {
+  GradingScheme,
+  RepeatPolicy,
+  REPEAT_POLICY_LABELS,
+  SpecialStatus,
+  UOH_GRADING_SCHEME,
+  GRADE_POINT_EPSILON,
+  applyGPAPrecision,
+  findBand,
+  findBandForGradePoint,
+  findBandForLetter,
+  findBandWithGradePoint,
+  roundPercentage,
+} from "./gradingSchemes";
+
+export interface AssessmentComponent {
+  id: string;
+  name: string;
+  // Share of the subject's final percentage, e.g. 25 for a 25% midterm
+  weight: number;
+  obtainedMarks: number;
+  totalMarks: number;
+}
+
+export type GradingMode = "graded" | "pass-fail" | "non-credit";
+
+export type EntryMode = "marks" | "letter" | "grade-point";
+
+export const ENTRY_MODE_LABELS: Record<EntryMode, string> = {
+  marks: "Marks",
+  letter: "Letter grade",
+  "grade-point": "Grade point",
+};
+
+export const GRADING_MODE_LABELS: Record<GradingMode, string> = {
+  graded: "Graded",
+  "pass-fail": "Pass/Fail",
+  "non-credit": "Non-credit",
+};
+
+export interface LabPart {
+  marks: number;
+  totalMarks: number;
+  creditHours: number;
+}
 
 export interface Subject {
   id: string;
   name: string;
   marks: number;
+  totalMarks: number;
+  creditHours: number;
+  // When present, the percentage is derived from these instead of marks
+  components?: AssessmentComponent[];
+  // "3+1" courses: marks and creditHours above describe the theory part,
+  // and the lab part is graded separately under the same course
+  lab?: LabPart;
+  // Defaults to "graded"; other modes are listed but left out of the GPA
+  gradingMode?: GradingMode;
+  // Replaces the marks entirely; its effect is defined by the grading scheme
+  status?: SpecialStatus;
+  // Defaults to "marks"; the other modes read letterGrade or gradePoint instead
+  entryMode?: EntryMode;
+  letterGrade?: string;
+  gradePoint?: number;
+  // Result not out yet; only used by the target GPA solver
+  pending?: boolean;
+}
+
+export interface GradedPart {
+  part: "theory" | "lab";
+  percentage: number;
+  gradePoint: number;
+  creditHours: number;
+}
+
+export interface CourseAttempt {
+  id: string;
+  name: string;
+  gradePoint: number;
   creditHours: number;
+  // Id of the earlier attempt this one repeats, if any
+  repeatOf?: string;
 }
 
 export interface Semester {
@@ -11,150 +88,536 @@ export interface Semester {
   name: string;
   gpa: number;
   totalCreditHours: number;
+  // Course records for this semester; needed for repeated courses and
+  // for computing the CGPA from quality points
+  courses?: CourseAttempt[];
+  // A prior CGPA and the credit hours behind it, entered as one weighted
+  // block instead of re-entering every past semester
+  carryForward?: boolean;
+  // How many semesters a carry-forward block stands for
+  semestersCovered?: number;
 }
 
-export const getPercentage = (marks: number): number => {
-  return Math.round((marks / 100) * 100);
-};
-
-export const getNumericalGrade = (percentage: number): number => {
-  if (percentage < 50) return 0.00;
-  if (percentage === 50) return 1.00;
-  if (percentage === 51) return 1.08;
-  if (percentage === 52) return 1.17;
-  if (percentage === 53) return 1.25;
-  if (percentage === 54) return 1.33;
-  if (percentage === 55) return 1.42;
-  if (percentage === 56) return 1.50;
-  if (percentage === 57) return 1.58;
-  if (percentage === 58) return 1.67;
-  if (percentage === 59) return 1.75;
-  if (percentage === 60) return 1.83;
-  if (percentage === 61) return 1.92;
-  if (percentage === 62) return 2.00;
-  if (percentage === 63) return 2.08;
-  if (percentage === 64) return 2.17;
-  if (percentage === 65) return 2.25;
-  if (percentage === 66) return 2.33;
-  if (percentage === 67) return 2.42;
-  if (percentage === 68) return 2.50;
-  if (percentage === 69) return 2.58;
-  if (percentage === 70) return 2.67;
-  if (percentage === 71) return 2.75;
-  if (percentage === 72) return 2.83;
-  if (percentage === 73) return 2.92;
-  if (percentage === 74) return 3.00;
-  if (percentage === 75) return 3.08;
-  if (percentage === 76) return 3.17;
-  if (percentage === 77) return 3.25;
-  if (percentage === 78) return 3.33;
-  if (percentage === 79) return 3.42;
-  if (percentage === 80) return 3.50;
-  if (percentage === 81) return 3.60;
-  if (percentage === 82) return 3.70;
-  if (percentage === 83) return 3.80;
-  if (percentage === 84) return 3.90;
-  if (percentage >= 85) return 4.00;
-  return 0.00;
-};
-
-export const getLetterGrade = (percentage: number): string => {
-  if (percentage >= 85) return "A";
-  if (percentage >= 80) return "A−";
-  if (percentage >= 75) return "B+";
-  if (percentage >= 71) return "B";
-  if (percentage >= 68) return "B−";
-  if (percentage >= 64) return "C+";
-  if (percentage >= 61) return "C";
-  if (percentage >= 58) return "C−";
-  if (percentage >= 54) return "D+";
-  if (percentage >= 50) return "D";
-  return "F";
-};
-
-export const getRemarks = (percentage: number): string => {
-  if (percentage >= 85) return "Excellent";
-  if (percentage >= 80) return "Excellent";
-  if (percentage >= 75) return "Good";
-  if (percentage >= 71) return "Good";
-  if (percentage >= 68) return "Good";
-  if (percentage >= 64) return "Adequate";
-  if (percentage >= 61) return "Adequate";
-  if (percentage >= 58) return "Adequate";
-  if (percentage >= 54) return "Minimum acceptable";
-  if (percentage >= 50) return "Minimum acceptable";
-  return "Fail";
-};
-
-export const calculateGPA = (subjects: Subject[]): number => {
-  let totalGradePoints = 0;
-  let totalCreditHours = 0;
+export interface RepeatAttempt {
+  semesterId: string;
+  course: CourseAttempt;
+  counted: boolean;
+}
+
+export interface RepeatGroup {
+  // Id of the first attempt, which later attempts link back to
+  originalId: string;
+  attempts: RepeatAttempt[];
+  // Grade point and credit hours that count once the policy is applied
+  gradePoint: number;
+  creditHours: number;
+}
+
+export const getPercentage = (
+  marks: number,
+  totalMarks: number = 100,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): number => {
+  if (totalMarks <= 0) return 0;
+  return roundPercentage((marks / totalMarks) * 100, scheme.roundingPolicy);
+};
+
+export const getComponentsPercentage = (components: AssessmentComponent[]): number => {
+  let weightedScore = 0;
+  let totalWeight = 0;
+
+  components.forEach(component => {
+    if (component.totalMarks <= 0) return;
+    weightedScore += (component.obtainedMarks / component.totalMarks) * component.weight;
+    totalWeight += component.weight;
+  });
+
+  if (totalWeight === 0) return 0;
+  return (weightedScore / totalWeight) * 100;
+};
+
+export const getSubjectPercentage = (
+  subject: Subject,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): number => {
+  if (subject.entryMode === "letter") {
+    return findBandForLetter(subject.letterGrade ?? "", scheme)?.minPercentage ?? 0;
+  }
+  if (subject.entryMode === "grade-point") {
+    return findBandWithGradePoint(subject.gradePoint ?? 0, scheme)?.minPercentage ?? 0;
+  }
+  if (subject.components && subject.components.length > 0) {
+    return roundPercentage(getComponentsPercentage(subject.components), scheme.roundingPolicy);
+  }
+  return getPercentage(subject.marks, subject.totalMarks, scheme);
+};
+
+export const getGradedParts = (
+  subject: Subject,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): GradedPart[] => {
+  const statusRule = subject.status ? scheme.specialStatuses[subject.status] : undefined;
+  if (statusRule) {
+    // Statuses that count against the GPA are graded at the lowest band
+    const failBand = scheme.bands[scheme.bands.length - 1];
+    const toFailedPart = (part: GradedPart["part"], creditHours: number): GradedPart => ({
+      part,
+      percentage: failBand.minPercentage,
+      gradePoint: failBand.gradePoint,
+      creditHours,
+    });
+    const parts = [toFailedPart("theory", subject.creditHours)];
+    if (subject.lab) parts.push(toFailedPart("lab", subject.lab.creditHours));
+    return parts;
+  }
+
+  const theoryPercentage = getSubjectPercentage(subject, scheme);
+  const parts: GradedPart[] = [{
+    part: "theory",
+    percentage: theoryPercentage,
+    gradePoint: getNumericalGrade(theoryPercentage, scheme),
+    creditHours: subject.creditHours,
+  }];
+
+  if (subject.lab) {
+    const labPercentage = getPercentage(subject.lab.marks, subject.lab.totalMarks, scheme);
+    parts.push({
+      part: "lab",
+      percentage: labPercentage,
+      gradePoint: getNumericalGrade(labPercentage, scheme),
+      creditHours: subject.lab.creditHours,
+    });
+  }
+
+  return parts;
+};
+
+export const getSubjectCreditHours = (subject: Subject): number => {
+  return subject.creditHours + (subject.lab?.creditHours ?? 0);
+};
+
+export const countsTowardsGPA = (
+  subject: Subject,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): boolean => {
+  if ((subject.gradingMode ?? "graded") !== "graded") return false;
+  if (subject.status) return scheme.specialStatuses[subject.status].policy === "fail";
+  return true;
+};
+
+export const isPassingPercentage = (
+  percentage: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): boolean => {
+  return findBand(percentage, scheme).gradePoint > 0;
+};
+
+export const hasPassedSubject = (
+  subject: Subject,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): boolean => {
+  if (subject.status) return false;
+  return getGradedParts(subject, scheme).every(part => isPassingPercentage(part.percentage, scheme));
+};
+
+export const getCreditSummary = (
+  subjects: Subject[],
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): { attempted: number; earned: number } => {
+  let attempted = 0;
+  let earned = 0;
 
   subjects.forEach(subject => {
-    const percentage = getPercentage(subject.marks);
-    const numericalGrade = getNumericalGrade(percentage);
-    const gradePoints = numericalGrade * subject.creditHours;
-    totalGradePoints += gradePoints;
-    totalCreditHours += subject.creditHours;
+    const creditHours = getSubjectCreditHours(subject);
+    if (countsTowardsGPA(subject, scheme)) attempted += creditHours;
+    if (subject.gradingMode !== "non-credit" && hasPassedSubject(subject, scheme)) earned += creditHours;
   });
 
-  if (totalCreditHours === 0) return 0;
-  return totalGradePoints / totalCreditHours;
+  return { attempted, earned };
+};
+
+export const getNumericalGrade = (
+  percentage: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): number => {
+  return findBand(percentage, scheme).gradePoint;
+};
+
+export const getLetterGrade = (
+  percentage: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): string => {
+  return findBand(percentage, scheme).letter;
+};
+
+export const getRemarks = (
+  percentage: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): string => {
+  return findBand(percentage, scheme).remark;
 };
 
-export const calculateCGPA = (semesters: Semester[]): number => {
-  let totalWeightedGPA = 0;
+// One line of a calculation trace: a subject part, semester or course and
+// the quality points it contributes
+export interface TraceRow {
+  label: string;
+  // Percentage behind the grade point, for subjects graded from marks
+  percentage?: number;
+  gradePoint: number;
+  creditHours: number;
+  qualityPoints: number;
+}
+
+// Step-by-step account of a GPA or CGPA, for checking a result by hand
+export interface CalculationTrace {
+  rows: TraceRow[];
+  // Repeated courses: every attempt taken out (negative rows) and the result
+  // the repeat policy keeps put back
+  adjustments: TraceRow[];
+  // Entries left out of the calculation, with the reason
+  excluded: string[];
+  totalQualityPoints: number;
+  totalCreditHours: number;
+  // Quality points divided by credit hours, before the precision policy
+  exactResult: number;
+  result: number;
+}
+
+const toTraceRow = (label: string, gradePoint: number, creditHours: number, percentage?: number): TraceRow => ({
+  label,
+  percentage,
+  gradePoint,
+  creditHours,
+  qualityPoints: gradePoint * creditHours,
+});
+
+const completeTrace = (
+  rows: TraceRow[],
+  adjustments: TraceRow[],
+  excluded: string[],
+  scheme: GradingScheme
+): CalculationTrace => {
+  let totalQualityPoints = 0;
   let totalCreditHours = 0;
+  [...rows, ...adjustments].forEach(row => {
+    totalQualityPoints += row.qualityPoints;
+    totalCreditHours += row.creditHours;
+  });
 
+  const exactResult = totalCreditHours === 0 ? 0 : totalQualityPoints / totalCreditHours;
+  return {
+    rows,
+    adjustments,
+    excluded,
+    totalQualityPoints,
+    totalCreditHours,
+    exactResult,
+    result: totalCreditHours === 0 ? 0 : applyGPAPrecision(exactResult, scheme.gpaPrecision),
+  };
+};
+
+export const traceGPA = (
+  subjects: Subject[],
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): CalculationTrace => {
+  const rows: TraceRow[] = [];
+  const excluded: string[] = [];
+
+  subjects.forEach(subject => {
+    if (!countsTowardsGPA(subject, scheme)) {
+      const reason = subject.status
+        ? scheme.specialStatuses[subject.status].label
+        : GRADING_MODE_LABELS[subject.gradingMode ?? "graded"];
+      excluded.push(`${subject.name}: ${reason}, not counted in the GPA.`);
+      return;
+    }
+    // Theory and lab parts carry their own grade and credit hours. Only marks
+    // give a real percentage; a letter or grade point stands for a whole band
+    const enteredAsMarks = !subject.status && (subject.entryMode ?? "marks") === "marks";
+    getGradedParts(subject, scheme).forEach(part => {
+      const label = part.part === "lab" ? `${subject.name} (lab)` : subject.name;
+      const hasMarks = !subject.status && (part.part === "lab" || enteredAsMarks);
+      rows.push(toTraceRow(label, part.gradePoint, part.creditHours, hasMarks ? part.percentage : undefined));
+    });
+  });
+
+  return completeTrace(rows, [], excluded, scheme);
+};
+
+export const calculateGPA = (
+  subjects: Subject[],
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): number => {
+  return traceGPA(subjects, scheme).result;
+};
+
+// Number of semesters the entries stand for, counting carry-forward blocks
+// by the semesters they cover
+export const getSemesterCount = (semesters: Semester[]): number => {
+  return semesters.reduce(
+    (count, semester) => count + (semester.carryForward ? semester.semestersCovered ?? 1 : 1),
+    0
+  );
+};
+
+export const resolveRepeats = (semesters: Semester[], policy: RepeatPolicy): RepeatGroup[] => {
+  const attemptsById = new Map<string, CourseAttempt>();
+  semesters.forEach(semester => {
+    semester.courses?.forEach(course => attemptsById.set(course.id, course));
+  });
+
+  const findOriginalId = (course: CourseAttempt): string => {
+    const seen = new Set<string>();
+    let current = course;
+    while (current.repeatOf && attemptsById.has(current.repeatOf) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = attemptsById.get(current.repeatOf)!;
+    }
+    return current.id;
+  };
+
+  // Attempts are collected in semester order, so the last one is the latest
+  const groups = new Map<string, RepeatAttempt[]>();
   semesters.forEach(semester => {
-    totalWeightedGPA += semester.gpa * semester.totalCreditHours;
-    totalCreditHours += semester.totalCreditHours;
+    semester.courses?.forEach(course => {
+      const originalId = findOriginalId(course);
+      const attempts = groups.get(originalId) ?? [];
+      attempts.push({ semesterId: semester.id, course, counted: false });
+      groups.set(originalId, attempts);
+    });
   });
 
-  if (totalCreditHours === 0) return 0;
-  return totalWeightedGPA / totalCreditHours;
-};
-
-export const getGPAPercentage = (gpa: number): number => {
-  // Convert GPA back to percentage for grade calculation
-  if (gpa === 0) return 0;
-  if (gpa === 1.00) return 50;
-  if (gpa === 1.08) return 51;
-  if (gpa === 1.17) return 52;
-  if (gpa === 1.25) return 53;
-  if (gpa === 1.33) return 54;
-  if (gpa === 1.42) return 55;
-  if (gpa === 1.50) return 56;
-  if (gpa === 1.58) return 57;
-  if (gpa === 1.67) return 58;
-  if (gpa === 1.75) return 59;
-  if (gpa === 1.83) return 60;
-  if (gpa === 1.92) return 61;
-  if (gpa === 2.00) return 62;
-  if (gpa === 2.08) return 63;
-  if (gpa === 2.17) return 64;
-  if (gpa === 2.25) return 65;
-  if (gpa === 2.33) return 66;
-  if (gpa === 2.42) return 67;
-  if (gpa === 2.50) return 68;
-  if (gpa === 2.58) return 69;
-  if (gpa === 2.67) return 70;
-  if (gpa === 2.75) return 71;
-  if (gpa === 2.83) return 72;
-  if (gpa === 2.92) return 73;
-  if (gpa === 3.00) return 74;
-  if (gpa === 3.08) return 75;
-  if (gpa === 3.17) return 76;
-  if (gpa === 3.25) return 77;
-  if (gpa === 3.33) return 78;
-  if (gpa === 3.42) return 79;
-  if (gpa === 3.50) return 80;
-  if (gpa === 3.60) return 81;
-  if (gpa === 3.70) return 82;
-  if (gpa === 3.80) return 83;
-  if (gpa === 3.90) return 84;
-  if (gpa === 4.00) return 85;
-  
-  // For values in between, find the closest match
-  return Math.round((gpa / 4.0) * 100);
+  return Array.from(groups.entries())
+    .filter(([, attempts]) => attempts.length > 1)
+    .map(([originalId, attempts]) => {
+      const latest = attempts[attempts.length - 1];
+
+      if (policy === "average") {
+        attempts.forEach(attempt => { attempt.counted = true; });
+        const gradePoint = attempts.reduce((sum, a) => sum + a.course.gradePoint, 0) / attempts.length;
+        return { originalId, attempts, gradePoint, creditHours: latest.course.creditHours };
+      }
+
+      // Ties on the best grade go to the later attempt
+      const counted = policy === "best"
+        ? attempts.reduce((best, a) => (a.course.gradePoint >= best.course.gradePoint ? a : best))
+        : latest;
+      counted.counted = true;
+      return {
+        originalId,
+        attempts,
+        gradePoint: counted.course.gradePoint,
+        creditHours: counted.course.creditHours,
+      };
+    });
+};
+
+export interface QualityPointTotals {
+  qualityPoints: number;
+  creditHours: number;
+}
+
+// Every attempt of a repeated course is already inside the totals, so take
+// them all out and put back the single result the policy keeps
+const getRepeatAdjustments = (semesters: Semester[], repeatPolicy: RepeatPolicy): TraceRow[] => {
+  return resolveRepeats(semesters, repeatPolicy).flatMap(group => {
+    const latest = group.attempts[group.attempts.length - 1].course;
+    return [
+      ...group.attempts.map(({ course }) =>
+        toTraceRow(`${course.name}: attempt taken out`, course.gradePoint, -course.creditHours)
+      ),
+      toTraceRow(`${latest.name}: ${REPEAT_POLICY_LABELS[repeatPolicy].toLowerCase()} counted`, group.gradePoint, group.creditHours),
+    ];
+  });
+};
+
+const getCourseTotals = (courses: CourseAttempt[]): QualityPointTotals => {
+  return courses.reduce(
+    (totals, course) => ({
+      qualityPoints: totals.qualityPoints + course.gradePoint * course.creditHours,
+      creditHours: totals.creditHours + course.creditHours,
+    }),
+    { qualityPoints: 0, creditHours: 0 }
+  );
+};
+
+export type CGPASource = "semesters" | "courses";
+
+// Works from semester GPAs, or from the full course list; carry-forward
+// blocks have no course list, so they always count by their CGPA
+export const traceCGPA = (
+  semesters: Semester[],
+  scheme: GradingScheme = UOH_GRADING_SCHEME,
+  repeatPolicy: RepeatPolicy = scheme.repeatPolicy,
+  source: CGPASource = "semesters"
+): CalculationTrace => {
+  const rows = semesters.flatMap(semester => {
+    if (source === "semesters" || semester.carryForward) {
+      return [toTraceRow(semester.name, semester.gpa, semester.totalCreditHours)];
+    }
+    return (semester.courses ?? []).map(course =>
+      toTraceRow(`${semester.name}: ${course.name}`, course.gradePoint, course.creditHours)
+    );
+  });
+
+  return completeTrace(rows, getRepeatAdjustments(semesters, repeatPolicy), [], scheme);
+};
+
+// Quality points and credit hours that count towards the CGPA
+export const getCountedTotals = (
+  semesters: Semester[],
+  scheme: GradingScheme = UOH_GRADING_SCHEME,
+  repeatPolicy: RepeatPolicy = scheme.repeatPolicy,
+  source: CGPASource = "semesters"
+): QualityPointTotals => {
+  const trace = traceCGPA(semesters, scheme, repeatPolicy, source);
+  return { qualityPoints: trace.totalQualityPoints, creditHours: trace.totalCreditHours };
+};
+
+export const calculateCGPA = (
+  semesters: Semester[],
+  scheme: GradingScheme = UOH_GRADING_SCHEME,
+  repeatPolicy: RepeatPolicy = scheme.repeatPolicy
+): number => {
+  return traceCGPA(semesters, scheme, repeatPolicy, "semesters").result;
+};
+
+export interface DerivedSemesterGPA {
+  // Semester GPA taking both CGPAs at face value
+  gpa: number;
+  // Lowest and highest recorded semester GPAs that could have produced the
+  // two CGPAs once they were cut to the scheme's precision
+  minimum: number;
+  maximum: number;
+  consistent: boolean;
+}
+
+// Works backwards from the CGPA before and after a semester. Both CGPAs were
+// truncated or rounded when recorded, so each stands for a small interval and
+// the semester GPA can only be pinned down to a range
+export const deriveSemesterGPA = (
+  previousCGPA: number,
+  previousCreditHours: number,
+  newCGPA: number,
+  semesterCreditHours: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): DerivedSemesterGPA => {
+  const { decimals, mode } = scheme.gpaPrecision;
+  const factor = 10 ** decimals;
+  const step = 1 / factor;
+  // A recorded value c covers [c - shift, c - shift + step)
+  const shift = mode === "round" ? step / 2 : 0;
+  const totalCreditHours = previousCreditHours + semesterCreditHours;
+  const solve = (previous: number, next: number) =>
+    (next * totalCreditHours - previous * previousCreditHours) / semesterCreditHours;
+
+  const exactLow = Math.max(0, solve(previousCGPA - shift + step, newCGPA - shift));
+  const exactHigh = Math.min(scheme.maxGradePoint + step, solve(previousCGPA - shift, newCGPA - shift + step));
+
+  // Recorded semester GPAs whose own interval meets [exactLow, exactHigh)
+  const minimum = Math.floor((exactLow + shift) * factor + GRADE_POINT_EPSILON) / factor;
+  const maximum = Math.min(
+    scheme.maxGradePoint,
+    (Math.ceil((exactHigh + shift) * factor - GRADE_POINT_EPSILON) - 1) / factor
+  );
+
+  return {
+    gpa: applyGPAPrecision(solve(previousCGPA, newCGPA), scheme.gpaPrecision),
+    minimum,
+    maximum,
+    consistent: exactLow < exactHigh && minimum <= maximum,
+  };
+};
+
+export const calculateCourseLevelCGPA = (
+  semesters: Semester[],
+  scheme: GradingScheme = UOH_GRADING_SCHEME,
+  repeatPolicy: RepeatPolicy = scheme.repeatPolicy
+): number => {
+  return traceCGPA(semesters, scheme, repeatPolicy, "courses").result;
+};
+
+export interface CGPACrossCheck {
+  courseLevel: number;
+  semesterWeighted: number;
+  difference: number;
+  reasons: string[];
+}
+
+export const crossCheckCGPA = (
+  semesters: Semester[],
+  scheme: GradingScheme = UOH_GRADING_SCHEME,
+  repeatPolicy: RepeatPolicy = scheme.repeatPolicy
+): CGPACrossCheck => {
+  const courseLevel = calculateCourseLevelCGPA(semesters, scheme, repeatPolicy);
+  const semesterWeighted = calculateCGPA(
+    semesters.filter(semester => semester.totalCreditHours > 0),
+    scheme,
+    repeatPolicy
+  );
+  const difference = courseLevel - semesterWeighted;
+  const { decimals, mode } = scheme.gpaPrecision;
+  const reasons: string[] = [];
+
+  semesters.forEach(semester => {
+    const totals = getCourseTotals(semester.courses ?? []);
+    if (totals.creditHours === 0) return;
+
+    if (semester.totalCreditHours <= 0) {
+      reasons.push(`${semester.name}: no semester GPA entered, so it is only in the course-level figure.`);
+      return;
+    }
+    if (semester.totalCreditHours !== totals.creditHours) {
+      reasons.push(
+        `${semester.name}: ${semester.totalCreditHours} credit hours entered, but its courses add up to ${totals.creditHours}.`
+      );
+    }
+
+    const exactGPA = totals.qualityPoints / totals.creditHours;
+    if (Math.abs(exactGPA - semester.gpa) < GRADE_POINT_EPSILON) return;
+
+    if (applyGPAPrecision(exactGPA, scheme.gpaPrecision) === applyGPAPrecision(semester.gpa, scheme.gpaPrecision)) {
+      reasons.push(
+        `${semester.name}: the transcript GPA ${semester.gpa.toFixed(decimals)} is the ${mode === "truncate" ? "truncated" : "rounded"} form of ${exactGPA.toFixed(4)} from its courses.`
+      );
+    } else {
+      reasons.push(
+        `${semester.name}: the entered GPA ${semester.gpa.toFixed(decimals)} does not match ${exactGPA.toFixed(4)} computed from its courses.`
+      );
+    }
+  });
+
+  if (reasons.length === 0 && Math.abs(difference) >= GRADE_POINT_EPSILON) {
+    reasons.push(
+      `Semester GPAs are stored to ${decimals} decimals, so weighting them loses precision that the course quality points keep.`
+    );
+  }
+
+  return { courseLevel, semesterWeighted, difference, reasons };
+};
+
+export const getGPAPercentage = (
+  gpa: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): number => {
+  // Convert GPA back to the percentage band it falls into, so that averaged
+  // values between two table entries take the lower band's grade and remarks
+  return findBandForGradePoint(applyGPAPrecision(gpa, scheme.gpaPrecision), scheme).minPercentage;
+};
+
+export const formatGPA = (
+  gpa: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): string => {
+  return applyGPAPrecision(gpa, scheme.gpaPrecision).toFixed(scheme.gpaPrecision.decimals);
+};
+
+// The final division of a trace in words, e.g.
+// "123.45 ÷ 36 = 3.4291, truncated to 3.42"
+export const formatTraceDivision = (
+  trace: CalculationTrace,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): string => {
+  const { decimals, mode } = scheme.gpaPrecision;
+  return `${trace.totalQualityPoints.toFixed(2)} ÷ ${trace.totalCreditHours} = ${trace.exactResult.toFixed(decimals + 2)}, ${mode === "truncate" ? "truncated" : "rounded"} to ${formatGPA(trace.result, scheme)}`;
 };
@@ -0,0 +1,113 @@
+import { GradingScheme, UOH_GRADING_SCHEME, findBand } from "./gradingSchemes";
+import { Subject, calculateGPA, countsTowardsGPA, getComponentsPercentage, getGradedParts } from "./gradeCalculations";
+
+export interface BandImprovement {
+  subjectId: string;
+  name: string;
+  part: "theory" | "lab";
+  currentMarks: number;
+  totalMarks: number;
+  // Extra marks needed to move up one band
+  marksNeeded: number;
+  nextLetter: string;
+  nextGradePoint: number;
+  // Exact rise in the GPA, before the scheme's precision is applied
+  gpaGain: number;
+  // GPA as it would be reported after the improvement
+  newGPA: number;
+  gainPerMark: number;
+}
+
+// Smallest marks, to the hundredth, whose percentage reaches minPercentage;
+// bisection keeps every rounding policy honest without special cases
+export const findMarksForPercentage = (
+  from: number,
+  totalMarks: number,
+  minPercentage: number,
+  percentageFor: (marks: number) => number
+): number => {
+  let low = from;
+  let high = totalMarks;
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (percentageFor(mid) >= minPercentage) high = mid;
+    else low = mid;
+  }
+  // A threshold that excludes its own boundary (ceil, or half-even's 84.5)
+  // needs the next hundredth up
+  const marks = Math.ceil(high * 100 - 1e-6) / 100;
+  const reached = percentageFor(marks) >= minPercentage ? marks : Math.round(marks * 100 + 1) / 100;
+  return Math.min(totalMarks, reached);
+};
+
+// The band with the next higher grade point, entered at its lowest percentage
+const getNextBand = (percentage: number, scheme: GradingScheme) => {
+  const current = findBand(percentage, scheme);
+  return scheme.bands
+    .filter(band => band.gradePoint > current.gradePoint)
+    .reduce<typeof current | null>((lowest, band) =>
+      lowest === null || band.minPercentage < lowest.minPercentage ? band : lowest, null);
+};
+
+// For every graded theory or lab part entered as marks, how many more marks
+// lift it into the next band and what that does to the GPA
+export const findBandImprovements = (
+  subjects: Subject[],
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): BandImprovement[] => {
+  const graded = subjects.filter(subject => countsTowardsGPA(subject, scheme));
+  const totalCreditHours = graded.reduce(
+    (sum, subject) => sum + getGradedParts(subject, scheme).reduce((partSum, part) => partSum + part.creditHours, 0),
+    0
+  );
+  if (totalCreditHours === 0) return [];
+
+  const improvements: BandImprovement[] = [];
+
+  graded
+    .filter(subject => !subject.status && (subject.entryMode ?? "marks") === "marks")
+    .forEach(subject => {
+      getGradedParts(subject, scheme).forEach(part => {
+        const nextBand = getNextBand(part.percentage, scheme);
+        if (!nextBand) return;
+
+        // Weighted components are improved as marks out of 100 of the combined score
+        const usesComponents = part.part === "theory" && subject.components?.length > 0;
+        const totalMarks = part.part === "lab"
+          ? subject.lab.totalMarks
+          : usesComponents ? 100 : subject.totalMarks;
+        const currentMarks = part.part === "lab"
+          ? subject.lab.marks
+          : usesComponents ? getComponentsPercentage(subject.components) : subject.marks;
+
+        const withMarks = (marks: number): Subject => {
+          if (part.part === "lab") return { ...subject, lab: { ...subject.lab, marks } };
+          if (usesComponents) return { ...subject, components: undefined, marks, totalMarks: 100 };
+          return { ...subject, marks };
+        };
+        const percentageFor = (marks: number) =>
+          getGradedParts(withMarks(marks), scheme).find(p => p.part === part.part).percentage;
+
+        const targetMarks = findMarksForPercentage(currentMarks, totalMarks, nextBand.minPercentage, percentageFor);
+        const marksNeeded = Math.round((targetMarks - currentMarks) * 100) / 100;
+        if (marksNeeded <= 0) return;
+
+        const gpaGain = ((nextBand.gradePoint - part.gradePoint) * part.creditHours) / totalCreditHours;
+        improvements.push({
+          subjectId: subject.id,
+          name: subject.name,
+          part: part.part,
+          currentMarks,
+          totalMarks,
+          marksNeeded,
+          nextLetter: nextBand.letter,
+          nextGradePoint: nextBand.gradePoint,
+          gpaGain,
+          newGPA: calculateGPA(subjects.map(s => (s.id === subject.id ? withMarks(targetMarks) : s)), scheme),
+          gainPerMark: gpaGain / marksNeeded,
+        });
+      });
+    });
+
+  return improvements.sort((a, b) => b.gainPerMark - a.gainPerMark);
+};
@@ -0,0 +1,71 @@
+import { getGradingScheme } from "./gradingSchemes";
+import { DEFAULT_INSTITUTION_ID, getInstitutionProfile } from "./institutionProfiles";
+
+// A batch is the institution and program a student is enrolled in and the
+// year they joined. Grading rules change between intakes, so the batch decides
+// which scheme (bands, rounding, standing and classification rules) applies.
+export interface Batch {
+  institutionId: string;
+  program: string;
+  intakeYear: number;
+}
+
+export interface GradingPolicy {
+  institutionId: string;
+  // Program the policy applies to, or ALL_PROGRAMS
+  program: string;
+  // First intake the policy applies to; it holds until a later policy starts
+  fromIntakeYear: number;
+  schemeId: string;
+}
+
+export const ALL_PROGRAMS = "All programs";
+
+export const DEFAULT_BATCH: Batch = { institutionId: DEFAULT_INSTITUTION_ID, program: ALL_PROGRAMS, intakeYear: 2024 };
+
+const gradingPolicies: GradingPolicy[] = [];
+
+export const registerGradingPolicy = (policy: GradingPolicy): void => {
+  gradingPolicies.push(policy);
+};
+
+const listPolicies = (institutionId: string): GradingPolicy[] => {
+  return gradingPolicies.filter(policy => policy.institutionId === institutionId);
+};
+
+// A policy written for the batch's own program wins over a university-wide
+// one; within each, the latest policy that has started by the intake applies.
+// Without any, the institution's own scheme is used.
+export const resolveGradingSchemeId = (batch: Batch): string => {
+  const latestFor = (program: string) => listPolicies(batch.institutionId)
+    .filter(policy => policy.program === program && policy.fromIntakeYear <= batch.intakeYear)
+    .sort((a, b) => b.fromIntakeYear - a.fromIntakeYear)[0];
+
+  const policy = latestFor(batch.program) ?? latestFor(ALL_PROGRAMS);
+  return getGradingScheme(policy?.schemeId ?? getInstitutionProfile(batch.institutionId).schemeId).id;
+};
+
+export const listPrograms = (institutionId: string): string[] => {
+  return Array.from(new Set([ALL_PROGRAMS, ...listPolicies(institutionId).map(policy => policy.program)]));
+};
+
+export const listIntakeYears = (
+  institutionId: string,
+  currentYear: number = new Date().getFullYear()
+): number[] => {
+  const earliest = Math.min(currentYear - 8, ...listPolicies(institutionId).map(policy => policy.fromIntakeYear));
+  return Array.from({ length: currentYear - earliest + 1 }, (_, index) => currentYear - index);
+};
+
+export const formatBatch = (batch: Batch): string => {
+  return batch.program === ALL_PROGRAMS
+    ? `Batch ${batch.intakeYear}`
+    : `Batch ${batch.intakeYear} – ${batch.program}`;
+};
+
+registerGradingPolicy({
+  institutionId: DEFAULT_INSTITUTION_ID,
+  program: ALL_PROGRAMS,
+  fromIntakeYear: 2018,
+  schemeId: getInstitutionProfile(DEFAULT_INSTITUTION_ID).schemeId,
+});
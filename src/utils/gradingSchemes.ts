@@ -0,0 +1,262 @@
+import { SchemeIssue, validateGradingScheme } from "./schemeValidation";
+
+export interface GradeBand {
+  // Inclusive lower bound of the band, in percent
+  minPercentage: number;
+  // Exclusive upper bound, except for the top band which includes it
+  maxPercentage: number;
+  gradePoint: number;
+  letter: string;
+  remark: string;
+}
+
+export type RoundingPolicy = "half-up" | "floor" | "ceil" | "half-even";
+
+export const ROUNDING_POLICY_LABELS: Record<RoundingPolicy, string> = {
+  "half-up": "Round half up",
+  floor: "Truncate",
+  ceil: "Round up",
+  "half-even": "Banker's rounding",
+};
+
+export type SpecialStatus = "incomplete" | "withdrawn" | "absent";
+
+export interface SpecialStatusRule {
+  code: string;
+  label: string;
+  // "exclude" leaves the course out of the GPA, "fail" counts it at the lowest band
+  policy: "exclude" | "fail";
+}
+
+export type RepeatPolicy = "latest" | "best" | "average";
+
+export const REPEAT_POLICY_LABELS: Record<RepeatPolicy, string> = {
+  latest: "Latest attempt",
+  best: "Best attempt",
+  average: "Average of attempts",
+};
+
+export interface GPAPrecision {
+  decimals: number;
+  // Transcripts usually truncate, so 3.4789 is recorded as 3.47 rather than 3.48
+  mode: "truncate" | "round";
+}
+
+export interface StandingRules {
+  // A cumulative GPA below this puts the student on probation
+  probationBelow: number;
+  // Consecutive probation semesters that lead to dismissal
+  dismissalAfterProbations: number;
+  minimumGraduationCGPA: number;
+}
+
+export interface AwardRule {
+  name: string;
+  minCGPA: number;
+  requiresNoRepeats: boolean;
+  requiresNoFailures: boolean;
+}
+
+export interface ClassificationRules {
+  // Number of semesters that make up a full degree
+  degreeSemesters: number;
+  // Ordered from the highest division to the lowest
+  divisions: { name: string; minCGPA: number }[];
+  awards: AwardRule[];
+}
+
+export interface GradingScheme {
+  id: string;
+  name: string;
+  maxGradePoint: number;
+  // How a fractional percentage is brought onto the whole-number band table
+  roundingPolicy: RoundingPolicy;
+  // Ordered from the highest band to the lowest
+  bands: GradeBand[];
+  // Every letter grade the scheme awards, best first; each needs a band
+  letters: string[];
+  specialStatuses: Record<SpecialStatus, SpecialStatusRule>;
+  // Which attempt of a repeated course counts towards the CGPA
+  repeatPolicy: RepeatPolicy;
+  // How computed GPAs and CGPAs are stored and displayed
+  gpaPrecision: GPAPrecision;
+  standingRules: StandingRules;
+  classificationRules: ClassificationRules;
+}
+
+const band = (
+  minPercentage: number,
+  maxPercentage: number,
+  gradePoint: number,
+  letter: string,
+  remark: string
+): GradeBand => ({ minPercentage, maxPercentage, gradePoint, letter, remark });
+
+export const UOH_GRADING_SCHEME: GradingScheme = {
+  id: "uoh",
+  name: "UoH",
+  maxGradePoint: 4.0,
+  roundingPolicy: "half-up",
+  bands: [
+    band(85, 100, 4.00, "A", "Excellent"),
+    band(84, 85, 3.90, "A−", "Excellent"),
+    band(83, 84, 3.80, "A−", "Excellent"),
+    band(82, 83, 3.70, "A−", "Excellent"),
+    band(81, 82, 3.60, "A−", "Excellent"),
+    band(80, 81, 3.50, "A−", "Excellent"),
+    band(79, 80, 3.42, "B+", "Good"),
+    band(78, 79, 3.33, "B+", "Good"),
+    band(77, 78, 3.25, "B+", "Good"),
+    band(76, 77, 3.17, "B+", "Good"),
+    band(75, 76, 3.08, "B+", "Good"),
+    band(74, 75, 3.00, "B", "Good"),
+    band(73, 74, 2.92, "B", "Good"),
+    band(72, 73, 2.83, "B", "Good"),
+    band(71, 72, 2.75, "B", "Good"),
+    band(70, 71, 2.67, "B−", "Good"),
+    band(69, 70, 2.58, "B−", "Good"),
+    band(68, 69, 2.50, "B−", "Good"),
+    band(67, 68, 2.42, "C+", "Adequate"),
+    band(66, 67, 2.33, "C+", "Adequate"),
+    band(65, 66, 2.25, "C+", "Adequate"),
+    band(64, 65, 2.17, "C+", "Adequate"),
+    band(63, 64, 2.08, "C", "Adequate"),
+    band(62, 63, 2.00, "C", "Adequate"),
+    band(61, 62, 1.92, "C", "Adequate"),
+    band(60, 61, 1.83, "C−", "Adequate"),
+    band(59, 60, 1.75, "C−", "Adequate"),
+    band(58, 59, 1.67, "C−", "Adequate"),
+    band(57, 58, 1.58, "D+", "Minimum acceptable"),
+    band(56, 57, 1.50, "D+", "Minimum acceptable"),
+    band(55, 56, 1.42, "D+", "Minimum acceptable"),
+    band(54, 55, 1.33, "D+", "Minimum acceptable"),
+    band(53, 54, 1.25, "D", "Minimum acceptable"),
+    band(52, 53, 1.17, "D", "Minimum acceptable"),
+    band(51, 52, 1.08, "D", "Minimum acceptable"),
+    band(50, 51, 1.00, "D", "Minimum acceptable"),
+    band(0, 50, 0.00, "F", "Fail"),
+  ],
+  letters: ["A", "A−", "B+", "B", "B−", "C+", "C", "C−", "D+", "D", "F"],
+  specialStatuses: {
+    incomplete: { code: "I", label: "Incomplete", policy: "exclude" },
+    withdrawn: { code: "W", label: "Withdrawn", policy: "exclude" },
+    absent: { code: "Abs", label: "Absent", policy: "fail" },
+  },
+  repeatPolicy: "best",
+  gpaPrecision: { decimals: 2, mode: "truncate" },
+  standingRules: {
+    probationBelow: 2.0,
+    dismissalAfterProbations: 2,
+    minimumGraduationCGPA: 2.0,
+  },
+  classificationRules: {
+    degreeSemesters: 8,
+    divisions: [
+      { name: "First Division", minCGPA: 3.0 },
+      { name: "Second Division", minCGPA: 2.5 },
+      { name: "Third Division", minCGPA: 2.0 },
+    ],
+    awards: [
+      { name: "Gold Medal", minCGPA: 3.8, requiresNoRepeats: true, requiresNoFailures: true },
+      { name: "Distinction", minCGPA: 3.5, requiresNoRepeats: true, requiresNoFailures: true },
+    ],
+  },
+};
+
+export const DEFAULT_GRADING_SCHEME_ID = UOH_GRADING_SCHEME.id;
+
+const gradingSchemes = new Map<string, GradingScheme>();
+const gradingSchemeIssues = new Map<string, SchemeIssue[]>();
+
+export const registerGradingScheme = (scheme: GradingScheme): void => {
+  gradingSchemes.set(scheme.id, scheme);
+  // Checked once on load so that a broken definition is reported, not used
+  gradingSchemeIssues.set(scheme.id, validateGradingScheme(scheme));
+};
+
+export const getGradingScheme = (id: string): GradingScheme => {
+  return gradingSchemes.get(id) ?? gradingSchemes.get(DEFAULT_GRADING_SCHEME_ID)!;
+};
+
+export const getGradingSchemeIssues = (id: string): SchemeIssue[] => {
+  return gradingSchemeIssues.get(getGradingScheme(id).id) ?? [];
+};
+
+export const listGradingSchemes = (): GradingScheme[] => {
+  return Array.from(gradingSchemes.values());
+};
+
+export const roundPercentage = (percentage: number, policy: RoundingPolicy): number => {
+  // Snap away floating point noise first so that 84.99999999 is not truncated to 84
+  const value = Math.round(percentage * 1e6) / 1e6;
+  switch (policy) {
+    case "floor":
+      return Math.floor(value);
+    case "ceil":
+      return Math.ceil(value);
+    case "half-even": {
+      const whole = Math.floor(value);
+      if (value - whole !== 0.5) return Math.round(value);
+      return whole % 2 === 0 ? whole : whole + 1;
+    }
+    case "half-up":
+    default:
+      return Math.round(value);
+  }
+};
+
+export const listLetterGrades = (scheme: GradingScheme): string[] => {
+  return Array.from(new Set(scheme.bands.map(b => b.letter)));
+};
+
+export const findBandForLetter = (letter: string, scheme: GradingScheme): GradeBand | undefined => {
+  // A letter alone only guarantees its lowest band, e.g. A− resolves to 3.50
+  // rather than anything up to 3.90
+  const matches = scheme.bands.filter(b => b.letter === letter);
+  return matches[matches.length - 1];
+};
+
+// Averaged grade points pick up floating point noise (3.08 can come out as
+// 3.0799999999999996), so comparisons against band points allow this slack
+export const GRADE_POINT_EPSILON = 1e-6;
+
+export const applyGPAPrecision = (gpa: number, precision: GPAPrecision): number => {
+  const factor = 10 ** precision.decimals;
+  // The epsilon keeps 3.0799999999999996 from truncating to 3.07
+  const scaled = gpa * factor + GRADE_POINT_EPSILON;
+  const value = precision.mode === "truncate" ? Math.floor(scaled) : Math.round(scaled);
+  return value / factor;
+};
+
+export const findBand = (percentage: number, scheme: GradingScheme): GradeBand => {
+  const [top] = scheme.bands;
+  const match = scheme.bands.find(b =>
+    percentage >= b.minPercentage &&
+    (percentage < b.maxPercentage || (b === top && percentage === b.maxPercentage))
+  );
+  if (match) return match;
+  // Anything above the scale earns the top band, anything else the lowest
+  if (percentage > top.maxPercentage) return top;
+  return scheme.bands[scheme.bands.length - 1];
+};
+
+export const listGradePoints = (scheme: GradingScheme): number[] => {
+  return Array.from(new Set(scheme.bands.map(b => b.gradePoint)));
+};
+
+export const findBandWithGradePoint = (gradePoint: number, scheme: GradingScheme): GradeBand | undefined => {
+  // Only exact ladder values are achievable for a single course; 3.45 is not
+  const matches = scheme.bands.filter(b => Math.abs(b.gradePoint - gradePoint) < GRADE_POINT_EPSILON);
+  return matches[matches.length - 1];
+};
+
+export const findBandForGradePoint = (gradePoint: number, scheme: GradingScheme): GradeBand => {
+  // A GPA falls into the highest band whose grade point it reaches. Bands that
+  // share a grade point resolve to the one listed first, i.e. the higher
+  // percentage, because the sort is stable.
+  const byGradePoint = [...scheme.bands].sort((a, b) => b.gradePoint - a.gradePoint);
+  const match = byGradePoint.find(b => gradePoint + GRADE_POINT_EPSILON >= b.gradePoint);
+  return match ?? byGradePoint[byGradePoint.length - 1];
+};
+
+registerGradingScheme(UOH_GRADING_SCHEME);
@@ -0,0 +1,55 @@
+import { DEFAULT_GRADING_SCHEME_ID, GradingScheme, registerGradingScheme } from "./gradingSchemes";
+
+// Everything that differs between universities, so that supporting a new one
+// is a matter of registering a profile rather than editing the calculators
+export interface InstitutionProfile {
+  id: string;
+  // Full name, e.g. "University of Hyderabad"
+  name: string;
+  // Short name used in page and PDF titles, e.g. "UoH"
+  brandName: string;
+  // Scheme used when no grading policy for the batch applies
+  schemeId: string;
+  // Credit hours a theory course and a separately graded lab can carry
+  creditHourOptions: number[];
+  labCreditHourOptions: number[];
+  // Credit hours given to a course added in the CGPA calculator's course list
+  defaultCourseCreditHours: number;
+  // Usual load of one semester, used to prefill the target CGPA planner
+  typicalSemesterCreditHours: number;
+  // Credit line shown under the page title and at the foot of PDF exports
+  footerText: string;
+}
+
+export const UOH_INSTITUTION_PROFILE: InstitutionProfile = {
+  id: "uoh",
+  name: "University of Hyderabad",
+  brandName: "UoH",
+  schemeId: DEFAULT_GRADING_SCHEME_ID,
+  creditHourOptions: [1, 2, 3, 4],
+  labCreditHourOptions: [1, 2],
+  defaultCourseCreditHours: 3,
+  typicalSemesterCreditHours: 18,
+  footerText: "Prepared by students of Batch 2024 – AI Section A & B",
+};
+
+export const DEFAULT_INSTITUTION_ID = UOH_INSTITUTION_PROFILE.id;
+
+const institutionProfiles = new Map<string, InstitutionProfile>();
+
+// A profile can bring its own grading scheme, which is registered (and so
+// validated) along with it
+export const registerInstitutionProfile = (profile: InstitutionProfile, scheme?: GradingScheme): void => {
+  if (scheme) registerGradingScheme(scheme);
+  institutionProfiles.set(profile.id, profile);
+};
+
+export const getInstitutionProfile = (id: string): InstitutionProfile => {
+  return institutionProfiles.get(id) ?? institutionProfiles.get(DEFAULT_INSTITUTION_ID)!;
+};
+
+export const listInstitutionProfiles = (): InstitutionProfile[] => {
+  return Array.from(institutionProfiles.values());
+};
+
+registerInstitutionProfile(UOH_INSTITUTION_PROFILE);
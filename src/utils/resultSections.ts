@@ -0,0 +1,98 @@
+import jsPDF from "jspdf";
+import { GradingScheme } from "./gradingSchemes";
+import { CalculationTrace, formatTraceDivision } from "./gradeCalculations";
+
+// Extra blocks shown under the main result in ResultModal and the PDF export
+export interface ResultSection {
+  title: string;
+  items?: { label: string; value: string }[];
+  notes?: string[];
+}
+
+// jsPDF's standard fonts only cover WinAnsi; a single character outside it,
+// such as the minus sign in "A−", garbles the whole line
+const PDF_REPLACEMENTS: Record<string, string> = {
+  "−": "-",
+  "–": "-",
+  "→": "->",
+};
+
+export const toPDFText = (text: string): string => {
+  return text.replace(/[−–→]/g, character => PDF_REPLACEMENTS[character]);
+};
+
+const ensureSpace = (doc: jsPDF, yPosition: number, needed: number): number => {
+  if (yPosition + needed > 280) {
+    doc.addPage();
+    return 20;
+  }
+  return yPosition;
+};
+
+export const addSectionsToPDF = (doc: jsPDF, sections: ResultSection[], yPosition: number): number => {
+  let y = yPosition;
+
+  sections.forEach(section => {
+    y = ensureSpace(doc, y + 5, 20);
+    doc.setFontSize(14);
+    doc.setTextColor(0, 0, 0);
+    doc.text(toPDFText(`${section.title}:`), 20, y);
+    y += 10;
+
+    doc.setFontSize(10);
+    section.items?.forEach(item => {
+      y = ensureSpace(doc, y, 7);
+      doc.text(toPDFText(`${item.label}: ${item.value}`), 30, y);
+      y += 7;
+    });
+    section.notes?.forEach(note => {
+      const lines: string[] = doc.splitTextToSize(toPDFText(note), 160);
+      y = ensureSpace(doc, y, lines.length * 5);
+      doc.text(lines, 30, y);
+      y += lines.length * 5 + 2;
+    });
+  });
+
+  return y;
+};
+
+// The full calculation on its own pages, after the rest of the export
+export const addTraceAppendixToPDF = (doc: jsPDF, trace: CalculationTrace, scheme: GradingScheme): void => {
+  doc.addPage();
+  doc.setFontSize(14);
+  doc.setTextColor(0, 0, 0);
+  doc.text("Appendix: Calculation Trace", 20, 20);
+
+  doc.setFontSize(9);
+  const columns = [20, 110, 130, 150, 170];
+  let y = 32;
+  ["Entry", "%", "Grade pt.", "Credits", "Quality pts."].forEach((heading, index) => {
+    doc.text(heading, columns[index], y);
+  });
+  y += 7;
+
+  [...trace.rows, ...trace.adjustments].forEach(row => {
+    y = ensureSpace(doc, y, 6);
+    const label: string = doc.splitTextToSize(toPDFText(row.label), 85)[0];
+    [
+      label,
+      row.percentage === undefined ? "—" : `${row.percentage}`,
+      row.gradePoint.toFixed(2),
+      `${row.creditHours}`,
+      row.qualityPoints.toFixed(2),
+    ].forEach((cell, index) => doc.text(cell, columns[index], y));
+    y += 6;
+  });
+
+  y = ensureSpace(doc, y + 4, 20);
+  doc.setFontSize(10);
+  doc.text(`Totals: ${trace.totalQualityPoints.toFixed(2)} quality points over ${trace.totalCreditHours} credit hours`, 20, y);
+  doc.text(formatTraceDivision(trace, scheme), 20, y + 7);
+  y += 14;
+
+  trace.excluded.forEach(note => {
+    y = ensureSpace(doc, y, 6);
+    doc.text(toPDFText(note), 20, y);
+    y += 6;
+  });
+};
@@ -0,0 +1,103 @@
+import type { GradingScheme } from "./gradingSchemes";
+
+export type SchemeIssueKind =
+  | "no-bands"
+  | "order"
+  | "empty-band"
+  | "gap"
+  | "overlap"
+  | "grade-point-range"
+  | "non-monotonic"
+  | "letter-without-band"
+  | "unknown-letter";
+
+export interface SchemeIssue {
+  kind: SchemeIssueKind;
+  message: string;
+}
+
+const describeBand = (band: GradingScheme["bands"][number]) =>
+  `${band.letter} ${band.gradePoint.toFixed(2)} (${band.minPercentage}-${band.maxPercentage}%)`;
+
+// Checks that a scheme's bands cover 0-100% exactly once, that grade points
+// never fall as percentages rise, and that its letters and bands agree.
+// Every lookup in the engine assumes these hold, so a scheme that fails any
+// of them would quietly produce wrong GPAs.
+export const validateGradingScheme = (scheme: GradingScheme): SchemeIssue[] => {
+  const issues: SchemeIssue[] = [];
+  const { bands } = scheme;
+
+  if (bands.length === 0) {
+    return [{ kind: "no-bands", message: "The scheme has no grade bands." }];
+  }
+
+  bands.forEach((band, index) => {
+    if (band.maxPercentage <= band.minPercentage) {
+      issues.push({
+        kind: "empty-band",
+        message: `Band ${describeBand(band)} ends at or before it starts.`,
+      });
+    }
+    if (band.gradePoint < 0 || band.gradePoint > scheme.maxGradePoint) {
+      issues.push({
+        kind: "grade-point-range",
+        message: `Band ${describeBand(band)} is outside 0-${scheme.maxGradePoint.toFixed(2)} grade points.`,
+      });
+    }
+    const next = bands[index + 1];
+    if (next && next.minPercentage > band.minPercentage) {
+      issues.push({
+        kind: "order",
+        message: `Bands must run from highest to lowest, but ${describeBand(band)} comes before ${describeBand(next)}.`,
+      });
+    }
+  });
+
+  const ascending = [...bands].sort((a, b) => a.minPercentage - b.minPercentage);
+  const [lowest] = ascending;
+  const highest = ascending[ascending.length - 1];
+
+  if (lowest.minPercentage > 0) {
+    issues.push({ kind: "gap", message: `Nothing covers 0-${lowest.minPercentage}%.` });
+  }
+  ascending.slice(1).forEach((band, index) => {
+    const previous = ascending[index];
+    if (band.minPercentage > previous.maxPercentage) {
+      issues.push({
+        kind: "gap",
+        message: `Nothing covers ${previous.maxPercentage}-${band.minPercentage}%, between ${describeBand(previous)} and ${describeBand(band)}.`,
+      });
+    } else if (band.minPercentage < previous.maxPercentage) {
+      issues.push({
+        kind: "overlap",
+        message: `${describeBand(previous)} and ${describeBand(band)} both cover ${band.minPercentage}-${Math.min(previous.maxPercentage, band.maxPercentage)}%.`,
+      });
+    }
+    if (band.gradePoint < previous.gradePoint) {
+      issues.push({
+        kind: "non-monotonic",
+        message: `${describeBand(band)} earns fewer grade points than the lower band ${describeBand(previous)}.`,
+      });
+    }
+  });
+  if (highest.maxPercentage < 100) {
+    issues.push({ kind: "gap", message: `Nothing covers ${highest.maxPercentage}-100%.` });
+  }
+
+  const bandLetters = new Set(bands.map(band => band.letter));
+  scheme.letters
+    .filter(letter => !bandLetters.has(letter))
+    .forEach(letter => {
+      issues.push({ kind: "letter-without-band", message: `Letter grade ${letter} has no band.` });
+    });
+  Array.from(bandLetters)
+    .filter(letter => !scheme.letters.includes(letter))
+    .forEach(letter => {
+      issues.push({
+        kind: "unknown-letter",
+        message: `Letter ${letter} is used by a band but is not one of the scheme's letter grades (${scheme.letters.join(", ")}).`,
+      });
+    });
+
+  return issues;
+};
@@ -0,0 +1,143 @@
+import { GradingScheme, GRADE_POINT_EPSILON, UOH_GRADING_SCHEME, applyGPAPrecision, roundPercentage } from "./gradingSchemes";
+import { QualityPointTotals, Subject, calculateGPA, countsTowardsGPA, getLetterGrade, getNumericalGrade, getPercentage } from "./gradeCalculations";
+import { findMarksForPercentage } from "./gradeSensitivity";
+
+export interface PendingRequirement {
+  subjectId: string;
+  name: string;
+  // null when the subject alone cannot close the gap
+  minimumPercentage: number | null;
+  minimumMarks: number | null;
+  totalMarks: number;
+  letter: string | null;
+  gradePoint: number | null;
+}
+
+export interface TargetSolution {
+  feasible: boolean;
+  // The target is reached even if every pending subject is failed
+  alreadySecured: boolean;
+  // Best GPA reachable with full marks in every pending subject
+  maxAchievableGPA: number;
+  // Lowest percentage that, scored in every pending subject, reaches the target
+  uniformPercentage: number | null;
+  // Lowest percentage needed in each subject if the others are aced
+  requirements: PendingRequirement[];
+}
+
+// Only band thresholds matter: anything between two of them earns the lower band
+const getLadder = (scheme: GradingScheme): number[] => {
+  return Array.from(new Set(scheme.bands.map(band => band.minPercentage))).sort((a, b) => a - b);
+};
+
+const withPercentage = (subject: Subject, percentage: number): Subject => ({
+  ...subject,
+  entryMode: "marks",
+  components: undefined,
+  status: undefined,
+  marks: (percentage / 100) * subject.totalMarks,
+  lab: subject.lab && { ...subject.lab, marks: (percentage / 100) * subject.lab.totalMarks },
+});
+
+export const solveTargetGPA = (
+  subjects: Subject[],
+  targetGPA: number,
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): TargetSolution => {
+  const ladder = getLadder(scheme);
+  const topPercentage = ladder[ladder.length - 1];
+  const pending = subjects.filter(subject => subject.pending && countsTowardsGPA(subject, scheme));
+  const known = subjects.filter(subject => !subject.pending);
+
+  const gpaWith = (assign: (subject: Subject) => number) =>
+    calculateGPA([...known, ...pending.map(subject => withPercentage(subject, assign(subject)))], scheme);
+  const reaches = (gpa: number) => gpa + GRADE_POINT_EPSILON >= targetGPA;
+
+  const maxAchievableGPA = gpaWith(() => topPercentage);
+  const alreadySecured = reaches(gpaWith(() => 0));
+  const feasible = reaches(maxAchievableGPA);
+
+  // The band is found on the ladder; what is reported is the lowest raw score
+  // that the scheme's rounding policy lifts into that band
+  const lowestRawPercentage = (threshold: number) =>
+    findMarksForPercentage(0, 100, threshold, raw => roundPercentage(raw, scheme.roundingPolicy));
+
+  const uniformThreshold = feasible
+    ? ladder.find(percentage => reaches(gpaWith(() => percentage))) ?? null
+    : null;
+  const uniformPercentage = uniformThreshold === null ? null : lowestRawPercentage(uniformThreshold);
+
+  const requirements = pending.map(target => {
+    const threshold = feasible
+      ? ladder.find(percentage =>
+          reaches(gpaWith(subject => (subject.id === target.id ? percentage : topPercentage)))
+        ) ?? null
+      : null;
+    const hasMinimum = threshold !== null;
+
+    return {
+      subjectId: target.id,
+      name: target.name,
+      minimumPercentage: hasMinimum ? lowestRawPercentage(threshold) : null,
+      minimumMarks: hasMinimum
+        ? findMarksForPercentage(0, target.totalMarks, threshold, marks => getPercentage(marks, target.totalMarks, scheme))
+        : null,
+      totalMarks: target.totalMarks,
+      letter: hasMinimum ? getLetterGrade(threshold, scheme) : null,
+      gradePoint: hasMinimum ? getNumericalGrade(threshold, scheme) : null,
+    };
+  });
+
+  return { feasible, alreadySecured, maxAchievableGPA, uniformPercentage, requirements };
+};
+
+export interface PlannedSemester {
+  name: string;
+  creditHours: number;
+  requiredGPA: number;
+  // CGPA after this semester if the required GPA is achieved
+  cgpaAfter: number;
+}
+
+export interface CGPAPlan {
+  feasible: boolean;
+  alreadySecured: boolean;
+  // Exact average needed over the remaining credit hours
+  requiredAverageGPA: number;
+  semesters: PlannedSemester[];
+}
+
+export const planTargetCGPA = (
+  current: QualityPointTotals,
+  targetCGPA: number,
+  remaining: { name: string; creditHours: number }[],
+  scheme: GradingScheme = UOH_GRADING_SCHEME
+): CGPAPlan => {
+  const remainingCreditHours = remaining.reduce((sum, semester) => sum + semester.creditHours, 0);
+  const requiredQualityPoints = targetCGPA * (current.creditHours + remainingCreditHours) - current.qualityPoints;
+  const requiredAverageGPA = remainingCreditHours > 0 ? requiredQualityPoints / remainingCreditHours : Infinity;
+
+  // Semester GPAs are recorded at the scheme's precision, so round the
+  // requirement up to the next recordable value rather than down
+  const factor = 10 ** scheme.gpaPrecision.decimals;
+  const requiredGPA = Math.max(0, Math.ceil(requiredAverageGPA * factor - GRADE_POINT_EPSILON) / factor);
+
+  let { qualityPoints, creditHours } = current;
+  const semesters = remaining.map(semester => {
+    qualityPoints += requiredGPA * semester.creditHours;
+    creditHours += semester.creditHours;
+    return {
+      name: semester.name,
+      creditHours: semester.creditHours,
+      requiredGPA,
+      cgpaAfter: applyGPAPrecision(qualityPoints / creditHours, scheme.gpaPrecision),
+    };
+  });
+
+  return {
+    feasible: requiredGPA <= scheme.maxGradePoint,
+    alreadySecured: requiredAverageGPA <= 0,
+    requiredAverageGPA,
+    semesters,
+  };
+};